@@ -1,9 +1,30 @@
-import { BigQuery } from "@google-cloud/bigquery";
+import { BigQuery, Query, TableMetadata } from "@google-cloud/bigquery";
 import * as fs from "fs";
 import * as path from "path";
-import { Model } from "./model";
-import { DataType, DataTypes } from "./dataTypes";
-import { QueryInterface } from "./queryInterface";
+import { IncludeOptions, Model, ModelOptions } from "./model";
+import { AttributeType, DataTypes } from "./dataTypes";
+import { QueryBudgetExceededError } from "./errors";
+import { BigQueryExecutor, QueryExecutor } from "./executor";
+import { HookFunction, HookName, HookRegistry } from "./hooks";
+import {
+  GenerateMigrationOptions,
+  generateMigration,
+} from "./migrationGenerator";
+import {
+  MigrationStorage,
+  MigrationStorageOption,
+  createMigrationStorage,
+} from "./migrationStorage";
+import {
+  MigrationStatus,
+  Migrator,
+  RunMigrationsOptions,
+  RunSeedersOptions,
+} from "./migrator";
+import { modelTableOptions, tableMetadata } from "./partitioning";
+import { MaterializedViewOptions, QueryInterface } from "./queryInterface";
+import { SchemaChange, diffTableOptions, diffTableSchema } from "./schemaDiff";
+import { Transaction } from "./transaction";
 import { dataTypeToSchemaField } from "./utils";
 
 export interface BigQueryORMConfig {
@@ -12,14 +33,87 @@ export interface BigQueryORMConfig {
   keyFilename?: string;
   logging?: boolean;
   freeTierMode?: boolean;
+  maximumBytesBilled?: number | string | null;
+  executor?: QueryExecutor;
+  migrationStorage?: MigrationStorageOption;
+  // Defaults to a `seeders` table recorded like the default migration storage.
+  seederStorage?: MigrationStorageOption;
+}
+
+export interface QueryBudgetOptions {
+  dryRun?: boolean;
+  maximumBytesBilled?: number | string;
+}
+
+export interface DryRunResult {
+  totalBytesProcessed: number;
+}
+
+// A single runaway query (a full scan of a large table) shouldn't be able to
+// use up the 1 TB monthly free quota; this caps each query at 1% of it. It is
+// a per-query cap: many queries can still exhaust the quota together.
+const FREE_TIER_BYTES_LIMIT = 10 * 1024 ** 3; // 10 GB
+
+// Orders view models so each comes after the view models it selects from.
+function viewOrder(views: (typeof Model)[]): (typeof Model)[] {
+  const ordered: (typeof Model)[] = [];
+  const visiting = new Set<typeof Model>();
+  const visit = (view: typeof Model) => {
+    if (ordered.includes(view)) return;
+    if (visiting.has(view)) {
+      throw new Error(`View ${view.tableName} depends on itself`);
+    }
+    visiting.add(view);
+    for (const dependency of views) {
+      if (dependency !== view && selectsFrom(view, dependency))
+        visit(dependency);
+    }
+    visiting.delete(view);
+    ordered.push(view);
+  };
+  views.forEach(visit);
+  return ordered;
+}
+
+function selectsFrom(view: typeof Model, other: typeof Model): boolean {
+  const { query } = view.view!;
+  if (typeof query === "string") {
+    // SQL text names tables as `table`, `dataset.table` or `project.dataset.table`.
+    return new RegExp(`[\`.]${other.tableName}\``).test(query);
+  }
+  const models = (include: IncludeOptions[] = []): (typeof Model)[] =>
+    include.flatMap((i) => [i.model, ...models(i.include)]);
+  return [query.model, ...models(query.include)].includes(other);
+}
+
+function refreshOptionsChanged(
+  metadata: TableMetadata,
+  options: MaterializedViewOptions
+): boolean {
+  const stored = metadata.materializedView || {};
+  return (
+    (stored.enableRefresh ?? true) !== (options.enableRefresh ?? true) ||
+    // BigQuery reports the default interval (30 minutes) when none was set.
+    Number(stored.refreshIntervalMs ?? 30 * 60 * 1000) !==
+      (options.refreshIntervalMinutes ?? 30) * 60 * 1000 ||
+    // The stored staleness is in canonical interval form and can't be
+    // compared with the configured expression, only its presence can.
+    (options.maxStaleness !== undefined) !==
+      !!(stored.maxStaleness ?? metadata.maxStaleness)
+  );
 }
 
 export class BigQueryORM {
   public bigquery: BigQuery;
-  public config: Required<BigQueryORMConfig>;
+  public executor: QueryExecutor;
+  public config: Required<
+    Omit<BigQueryORMConfig, "executor" | "migrationStorage" | "seederStorage">
+  >;
   public models: Record<string, typeof Model> = {};
+  public hooks: HookRegistry<HookName> = new HookRegistry();
+  public migrationStorage: MigrationStorage;
+  public seederStorage: MigrationStorage;
   private queryInterface: QueryInterface;
-  private executedMigrations: Set<string> = new Set(); // In-memory migration tracking for free tier
 
   constructor(config?: Partial<BigQueryORMConfig>) {
     this.config = {
@@ -30,6 +124,13 @@ export class BigQueryORM {
         config?.keyFilename || process.env.GOOGLE_APPLICATION_CREDENTIALS || "",
       logging: config?.logging ?? false,
       freeTierMode: config?.freeTierMode ?? false,
+      // `null` turns the budget off, even in free tier mode.
+      maximumBytesBilled:
+        config?.maximumBytesBilled !== undefined
+          ? config.maximumBytesBilled
+          : config?.freeTierMode
+          ? FREE_TIER_BYTES_LIMIT
+          : null,
     };
 
     if (!this.config.projectId) {
@@ -42,7 +143,19 @@ export class BigQueryORM {
       projectId: this.config.projectId,
       keyFilename: this.config.keyFilename,
     });
+    this.executor =
+      config?.executor ||
+      new BigQueryExecutor(this.bigquery, this.config.dataset);
     this.queryInterface = new QueryInterface(this);
+    this.migrationStorage = createMigrationStorage(
+      this,
+      config?.migrationStorage
+    );
+    this.seederStorage = createMigrationStorage(
+      this,
+      config?.seederStorage,
+      "seeders"
+    );
   }
 
   async authenticate(): Promise<void> {
@@ -52,24 +165,64 @@ export class BigQueryORM {
       );
     }
     try {
-      await this.bigquery.getDatasets({ maxResults: 1 });
+      await this.executor.ping();
     } catch (err: any) {
       console.error("Authentication failed:", err.message);
       throw err;
     }
   }
 
+  addHook(name: HookName, fn: HookFunction): void {
+    this.hooks.add(name, fn);
+  }
+
+  removeHook(name: HookName, fn?: HookFunction): void {
+    this.hooks.remove(name, fn);
+  }
+
+  async dryRun(query: Query): Promise<DryRunResult> {
+    try {
+      const { metadata } = await this.executor.query({
+        ...query,
+        dryRun: true,
+      });
+      return {
+        totalBytesProcessed: Number(
+          metadata.statistics?.totalBytesProcessed || 0
+        ),
+      };
+    } catch (err: any) {
+      console.error("Dry run failed:", err.message);
+      throw err;
+    }
+  }
+
+  async applyByteBudget(
+    query: Query,
+    maximumBytesBilled?: number | string | null
+  ): Promise<Query> {
+    const budget = maximumBytesBilled ?? this.config.maximumBytesBilled;
+    if (budget == null) return query;
+    const limit = Number(budget);
+    const { totalBytesProcessed } = await this.dryRun(query);
+    if (totalBytesProcessed > limit) {
+      throw new QueryBudgetExceededError(totalBytesProcessed, limit);
+    }
+    if (this.config.logging)
+      console.log(
+        `Query estimated at ${totalBytesProcessed} bytes (budget ${limit})`
+      );
+    // Also let BigQuery enforce the cap in case the estimate was low.
+    return { ...query, maximumBytesBilled: String(limit) };
+  }
+
   define(
     name: string,
-    attributes: Record<string, DataType>,
-    options: { tableName?: string; primaryKey?: string } = {}
+    attributes: Record<string, AttributeType>,
+    options: ModelOptions = {}
   ): typeof Model {
     class DynamicModel extends Model {}
-    DynamicModel.init(attributes, {
-      orm: this,
-      tableName: options.tableName,
-      primaryKey: options.primaryKey,
-    });
+    DynamicModel.init(attributes, { ...options, orm: this });
     this.models[name] = DynamicModel;
     return DynamicModel;
   }
@@ -102,20 +255,19 @@ export class BigQueryORM {
   }
 
   async sync(
-    options: { force?: boolean; alter?: boolean } = {}
-  ): Promise<void> {
-    const { force = false, alter = false } = options;
-    if (this.config.freeTierMode && (force || alter)) {
+    options: { force?: boolean; alter?: boolean; dryRun?: boolean } = {}
+  ): Promise<SchemaChange[]> {
+    const { force = false, alter = false, dryRun = false } = options;
+    if (this.config.freeTierMode && (force || alter) && !dryRun) {
       console.warn(
         "Free tier mode: Table creation/deletion may incur storage costs. Ensure usage stays within 10GB limit."
       );
     }
 
-    const dataset = this.bigquery.dataset(this.config.dataset);
-    const [dsExists] = await dataset.exists();
-    if (!dsExists) {
+    const dsExists = await this.executor.datasetExists();
+    if (!dsExists && !dryRun) {
       try {
-        await dataset.create();
+        await this.executor.createDataset();
         if (this.config.logging)
           console.log(`Created dataset ${this.config.dataset}`);
       } catch (err: any) {
@@ -127,216 +279,231 @@ export class BigQueryORM {
       }
     }
 
-    for (const model of Object.values(this.models)) {
-      const table = dataset.table(model.tableName);
-      const [tExists] = await table.exists();
-      if (tExists && force) {
-        try {
-          await table.delete();
-          if (this.config.logging)
-            console.log(`Deleted table ${model.tableName}`);
-        } catch (err: any) {
-          console.error(
-            `Failed to delete table ${model.tableName}:`,
-            err.message
-          );
-          throw err;
-        }
-      }
+    const plan: SchemaChange[] = [];
+    const models = Object.values(this.models);
+    for (const model of models.filter((m) => !m.view)) {
+      const tableName = model.tableName;
+      const tExists = dsExists && (await this.executor.tableExists(tableName));
       if (!tExists || force) {
+        plan.push({
+          tableName,
+          action: tExists ? "recreateTable" : "createTable",
+          applicable: true,
+          description: `${tExists ? "Recreate" : "Create"} table ${tableName}`,
+        });
+        if (dryRun) continue;
+        if (tExists) {
+          try {
+            await this.executor.deleteTable(tableName);
+            if (this.config.logging) console.log(`Deleted table ${tableName}`);
+          } catch (err: any) {
+            console.error(`Failed to delete table ${tableName}:`, err.message);
+            throw err;
+          }
+        }
         const schema = Object.entries(model.attributes).map(([name, type]) =>
           dataTypeToSchemaField(name, type)
         );
         try {
-          await table.create({ schema });
-          if (this.config.logging)
-            console.log(`Created table ${model.tableName}`);
+          await this.executor.createTable(tableName, {
+            schema,
+            ...tableMetadata(modelTableOptions(model)),
+          });
+          if (this.config.logging) console.log(`Created table ${tableName}`);
         } catch (err: any) {
-          console.error(
-            `Failed to create table ${model.tableName}:`,
-            err.message
-          );
+          console.error(`Failed to create table ${tableName}:`, err.message);
           throw err;
         }
-      } else if (alter) {
-        console.warn(
-          "Alter sync not supported in free tier; manual migration recommended."
-        );
+      } else if (alter || dryRun) {
+        const metadata = await this.executor.getTableMetadata(tableName);
+        const changes = [
+          ...diffTableSchema(
+            tableName,
+            model.attributes,
+            metadata.schema?.fields
+          ),
+          ...diffTableOptions(tableName, modelTableOptions(model), metadata),
+        ];
+        plan.push(...changes);
+        if (dryRun) continue;
+        for (const change of changes) {
+          if (change.applicable) {
+            await this.applySchemaChange(change);
+          } else {
+            console.warn(
+              `Sync cannot apply change to ${tableName}: ${change.description}. Write a migration instead.`
+            );
+          }
+        }
       }
     }
-  }
-
-  getQueryInterface(): QueryInterface {
-    return this.queryInterface;
-  }
-
-  async runMigrations(migrationsPath: string): Promise<void> {
-    if (this.config.freeTierMode) {
-      console.warn(
-        "Free tier mode: Migrations use in-memory tracking to avoid DML. Enable billing at https://console.cloud.google.com/billing for persistent migration tracking."
-      );
-    }
-
-    const dataset = this.bigquery.dataset(this.config.dataset);
-    let [dsExists] = await dataset.exists();
-    if (!dsExists) {
-      try {
-        await dataset.create();
-        if (this.config.logging)
-          console.log(`Created dataset ${this.config.dataset}`);
-      } catch (err: any) {
-        console.error(
-          `Failed to create dataset ${this.config.dataset}:`,
-          err.message
-        );
-        throw err;
+    // Views go last since they may select from the tables above.
+    for (const model of viewOrder(models.filter((m) => m.view))) {
+      const viewName = model.tableName;
+      const { query, materialized, ...refreshOptions } = model.view!;
+      const kind = materialized ? "materialized view" : "view";
+      const exists = dsExists && (await this.executor.tableExists(viewName));
+      const sql =
+        typeof query === "string"
+          ? query
+          : query.model.toSQL("view", query).sql;
+      if (exists) {
+        const metadata = await this.executor.getTableMetadata(viewName);
+        const stored = materialized ? metadata.materializedView : metadata.view;
+        // Replacing a materialized view recomputes it in full, so only
+        // replace when the query changed and alter options in place.
+        if (stored?.query === sql) {
+          if (materialized && refreshOptionsChanged(metadata, refreshOptions)) {
+            plan.push({
+              tableName: viewName,
+              action: "alterView",
+              applicable: true,
+              description: `Alter materialized view ${viewName} options`,
+            });
+            if (!dryRun)
+              await this.queryInterface.alterMaterializedView(
+                viewName,
+                refreshOptions
+              );
+          }
+          continue;
+        }
       }
-    }
-
-    const metaTable = dataset.table("migrations");
-    let [tExists] = await metaTable.exists();
-    if (!tExists && !this.config.freeTierMode) {
-      try {
-        await metaTable.create({
-          schema: [
-            { name: "name", type: "STRING" },
-            { name: "executed_at", type: "TIMESTAMP" },
-          ],
+      plan.push({
+        tableName: viewName,
+        action: exists ? "replaceView" : "createView",
+        applicable: true,
+        description: `${exists ? "Replace" : "Create"} ${kind} ${viewName}`,
+      });
+      if (dryRun) continue;
+      if (materialized) {
+        await this.queryInterface.createMaterializedView(viewName, sql, {
+          ...refreshOptions,
+          replace: true,
         });
-        if (this.config.logging) console.log("Created migrations table");
-      } catch (err: any) {
-        console.error("Failed to create migrations table:", err.message);
-        throw err;
+      } else {
+        await this.queryInterface.createView(viewName, sql, { replace: true });
       }
     }
+    if (!dryRun) await this.hooks.run("afterSync", options, this);
+    return plan;
+  }
 
-    let executed: Set<string>;
-    if (this.config.freeTierMode) {
-      executed = this.executedMigrations; // Use in-memory tracking
-    } else {
-      try {
-        const [rows] = await this.bigquery.query({
-          query: `SELECT name FROM \`${this.config.projectId}.${this.config.dataset}.migrations\` ORDER BY executed_at ASC`,
-        });
-        executed = new Set(rows.map((r: any) => r.name));
-      } catch (err: any) {
-        console.error("Failed to query migrations:", err.message);
-        throw err;
-      }
+  private async applySchemaChange(change: SchemaChange): Promise<void> {
+    const { tableName, column, attribute } = change;
+    switch (change.action) {
+      case "addColumn":
+        await this.queryInterface.addColumn(tableName, column!, attribute!);
+        break;
+      case "relaxColumn":
+        await this.queryInterface.relaxColumn(tableName, column!);
+        break;
+      case "widenColumn":
+        await this.queryInterface.changeColumn(tableName, column!, attribute!);
+        break;
+      case "changeClustering":
+        await this.queryInterface.addClustering(
+          tableName,
+          change.tableOptions!.clusterBy!
+        );
+        break;
+      case "changePartitionOptions":
+        await this.queryInterface.setPartitionOptions(
+          tableName,
+          change.tableOptions!
+        );
+        break;
+      default:
+        throw new Error(`Cannot apply schema change: ${change.description}`);
     }
+  }
 
-    const migrationFiles = fs
-      .readdirSync(migrationsPath)
-      .filter(
-        (f) => !f.endsWith(".d.ts") && (f.endsWith(".ts") || f.endsWith(".js"))
-      );
-    migrationFiles.sort();
-
-    for (const file of migrationFiles) {
-      const migrationName = path.basename(file, path.extname(file));
-      if (executed.has(migrationName)) {
-        if (this.config.logging)
-          console.log(`Skipping migration ${migrationName} (already executed)`);
-        continue;
-      }
+  getQueryInterface(): QueryInterface {
+    return this.queryInterface;
+  }
 
-      const migrationModule = await import(path.resolve(migrationsPath, file));
-      const migration = migrationModule.default || migrationModule;
+  async verifyMigrations(migrationsPath: string): Promise<string[]> {
+    return new Migrator(this, this.migrationStorage).modified(migrationsPath);
+  }
 
-      try {
-        await migration.up(this.queryInterface, this);
-        if (this.config.freeTierMode) {
-          this.executedMigrations.add(migrationName);
-          if (this.config.logging)
-            console.log(`Migration ${migrationName} tracked in-memory`);
-        } else {
-          const sql = `INSERT INTO \`${this.config.projectId}.${this.config.dataset}.migrations\` (name, executed_at) VALUES (@name, @executed_at)`;
-          await this.bigquery.query({
-            query: sql,
-            params: {
-              name: migrationName,
-              executed_at: new Date().toISOString(),
-            },
-          });
-          if (this.config.logging)
-            console.log(`Migration ${migrationName} executed and recorded`);
-        }
-      } catch (err: any) {
-        console.error(`Failed to run migration ${migrationName}:`, err.message);
-        throw err;
-      }
-    }
+  async runMigrations(
+    migrationsPath: string,
+    options: RunMigrationsOptions = {}
+  ): Promise<string[]> {
+    return new Migrator(this, this.migrationStorage).run(
+      migrationsPath,
+      options
+    );
   }
 
-  async revertLastMigration(migrationsPath: string): Promise<void> {
-    if (this.config.freeTierMode) {
-      console.warn(
-        "Free tier mode: Reverting migrations not supported due to DML restrictions. Enable billing at https://console.cloud.google.com/billing."
-      );
-      return;
-    }
+  async migrationStatus(migrationsPath: string): Promise<MigrationStatus> {
+    return new Migrator(this, this.migrationStorage).status(migrationsPath);
+  }
 
-    const metaTable = this.bigquery
-      .dataset(this.config.dataset)
-      .table("migrations");
-    let migrationName: string;
+  async generateMigration(
+    migrationsPath: string,
+    name: string,
+    options: GenerateMigrationOptions = {}
+  ): Promise<string | null> {
     try {
-      const [rows] = await this.bigquery.query({
-        query: `SELECT name FROM \`${this.config.projectId}.${this.config.dataset}.migrations\` ORDER BY executed_at DESC LIMIT 1`,
-      });
-      if (!rows.length) {
-        if (this.config.logging) console.log("No migrations to revert");
-        return;
-      }
-      migrationName = rows[0].name;
+      return await generateMigration(this, migrationsPath, name, options);
     } catch (err: any) {
-      console.error("Failed to query migrations for revert:", err.message);
+      console.error("Failed to generate migration:", err.message);
       throw err;
     }
+  }
 
-    const migrationFiles = fs
-      .readdirSync(migrationsPath)
-      .filter(
-        (f) => !f.endsWith(".d.ts") && (f.endsWith(".ts") || f.endsWith(".js"))
-      );
-    const migrationFile = migrationFiles.find(
-      (f) => path.basename(f, path.extname(f)) === migrationName
-    );
-    if (!migrationFile) {
-      throw new Error(`Migration file not found: ${migrationName}`);
-    }
+  async revertLastMigration(migrationsPath: string): Promise<string | null> {
+    return new Migrator(this, this.migrationStorage).revertLast(migrationsPath);
+  }
 
-    const migrationModule = await import(
-      path.resolve(migrationsPath, migrationFile)
-    );
-    const migration = migrationModule.default || migrationModule;
+  async runSeeders(
+    seedersPath: string,
+    options: RunSeedersOptions = {}
+  ): Promise<string[]> {
+    // Reference data is expected to change, so edited seeders are not an error.
+    return new Migrator(this, this.seederStorage, "seeder").run(seedersPath, {
+      ...options,
+      verifyChecksums: false,
+    });
+  }
 
-    try {
-      await migration.down(this.queryInterface, this);
-      const sql = `DELETE FROM \`${this.config.projectId}.${this.config.dataset}.migrations\` WHERE name = @migrationName`;
-      await this.bigquery.query({ query: sql, params: { migrationName } });
-      if (this.config.logging)
-        console.log(`Reverted migration ${migrationName}`);
-    } catch (err: any) {
-      console.error(
-        `Failed to revert migration ${migrationName}:`,
-        err.message
-      );
-      throw err;
-    }
+  async revertLastSeeder(seedersPath: string): Promise<string | null> {
+    return new Migrator(this, this.seederStorage, "seeder").revertLast(
+      seedersPath
+    );
   }
 
-  async transaction(fn: (qi: QueryInterface) => Promise<void>): Promise<void> {
+  // Callbacks written for the old `(qi) => ...` signature must be updated:
+  // they now receive the Transaction first. QueryInterface calls only join
+  // the session when given `{ transaction: t }`.
+  async transaction<T>(
+    fn: (t: Transaction, qi: QueryInterface) => Promise<T>
+  ): Promise<T> {
     if (this.config.freeTierMode) {
       console.warn(
         "Free tier mode: Transactions limited to SELECT queries. DML operations disabled."
       );
     }
+    const transaction = new Transaction(this);
+    await transaction.begin();
     try {
-      await fn(this.queryInterface);
+      const result = await fn(transaction, this.queryInterface);
+      await transaction.commit();
+      return result;
     } catch (err: any) {
       if (this.config.logging)
         console.error("Transaction failed:", err.message);
+      if (!transaction.isFinished) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackErr: any) {
+          console.error(
+            "Failed to roll back transaction:",
+            rollbackErr.message
+          );
+        }
+      }
       throw err;
     }
   }
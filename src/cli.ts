@@ -0,0 +1,342 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { BigQueryORM, BigQueryORMConfig } from "./bigQueryORM";
+import { createMigration } from "./migrationGenerator";
+
+export interface CliConfig extends Partial<BigQueryORMConfig> {
+  modelsPath?: string;
+  migrationsPath?: string;
+  seedersPath?: string;
+  snapshotPath?: string;
+}
+
+interface ParsedArgs {
+  command?: string;
+  args: string[];
+  flags: Record<string, string | boolean>;
+}
+
+const CONFIG_FILES = [".bqormrc", ".bqormrc.json", "bqorm.config.js"];
+
+// Flags that never take a value, so `seed --dry-run users` keeps `users`.
+const BOOLEAN_FLAGS = new Set([
+  "force",
+  "alter",
+  "dry-run",
+  "skip-checksums",
+  "detect-renames",
+  "allow-manual",
+  "help",
+]);
+
+const COMMON_FLAGS = ["config", "models", "migrations", "seeders", "help"];
+
+// Flags each command accepts besides the common ones; anything else is an
+// error rather than being silently ignored.
+const COMMAND_FLAGS: Record<string, string[]> = {
+  migrate: ["to", "step", "skip-checksums"],
+  "migrate:undo": [],
+  "migrate:undo:all": [],
+  "migrate:status": [],
+  "migration:create": [],
+  "migration:generate": ["snapshot", "detect-renames", "allow-manual"],
+  "db:sync": ["force", "alter", "dry-run"],
+  seed: [],
+  "seed:undo": [],
+  "seed:undo:all": [],
+};
+
+const USAGE = `Usage: bq-orm <command> [options]
+
+Commands:
+  migrate                     Run pending migrations (--to <name>,
+                              --step <n>, --skip-checksums)
+  migrate:undo                Revert the most recent migration
+  migrate:undo:all            Revert every executed migration
+  migrate:status              List executed and pending migrations
+  migration:create <name>     Write an empty migration
+  migration:generate <name>   Write a migration for differences between the
+                              models and the dataset (or a schema snapshot)
+                              (--detect-renames, --allow-manual)
+  db:sync                     Create or update tables for the models
+  seed [name...]              Run pending seeders, or only the named ones
+  seed:undo                   Revert the most recently run seeder
+  seed:undo:all               Revert every seeder that has run
+
+Options:
+  --config <file>             Config file (default: .bqormrc, .bqormrc.json
+                              or bqorm.config.js in the current directory)
+  --models <dir>              Directory of model definition files
+  --migrations <dir>          Migrations directory (default: migrations)
+  --seeders <dir>             Seeders directory (default: seeders)
+  --snapshot <file>           Compare against a schema snapshot file instead
+                              of the live dataset, and update it afterwards
+  --force, --alter, --dry-run Passed to sync by db:sync
+  --help                      Show this help
+
+Without a config file, BigQuery settings come from GOOGLE_CLOUD_PROJECT,
+BIGQUERY_DATASET and GOOGLE_APPLICATION_CREDENTIALS.`;
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { args: [], flags: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith("--")) {
+      const [name, inline] = arg.slice(2).split("=", 2);
+      if (inline !== undefined) {
+        parsed.flags[name] = inline;
+      } else if (
+        !BOOLEAN_FLAGS.has(name) &&
+        i + 1 < argv.length &&
+        !argv[i + 1].startsWith("--")
+      ) {
+        parsed.flags[name] = argv[++i];
+      } else {
+        parsed.flags[name] = true;
+      }
+    } else if (!parsed.command) {
+      parsed.command = arg;
+    } else {
+      parsed.args.push(arg);
+    }
+  }
+  return parsed;
+}
+
+function checkFlags(command: string, flags: ParsedArgs["flags"]): void {
+  const supported = COMMAND_FLAGS[command];
+  if (!supported) return;
+  for (const name of Object.keys(flags)) {
+    if (!COMMON_FLAGS.includes(name) && !supported.includes(name)) {
+      throw new Error(`${command} does not support --${name}\n\n${USAGE}`);
+    }
+  }
+}
+
+function positiveIntegerFlag(flags: ParsedArgs["flags"], name: string) {
+  const value = flags[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !/^[1-9]\d*$/.test(value)) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return Number(value);
+}
+
+function stringFlag(flags: ParsedArgs["flags"], name: string) {
+  const value = flags[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+export async function loadConfig(configPath?: string): Promise<CliConfig> {
+  const file = configPath
+    ? path.resolve(configPath)
+    : CONFIG_FILES.map((f) => path.resolve(f)).find((f) => fs.existsSync(f));
+  if (!file) return {};
+  if (!fs.existsSync(file)) throw new Error(`Config file not found: ${file}`);
+
+  let config: CliConfig;
+  try {
+    if (file.endsWith(".js")) {
+      const module = await import(file);
+      config = module.default || module;
+    } else {
+      config = JSON.parse(fs.readFileSync(file, "utf8"));
+    }
+  } catch (err: any) {
+    console.error(`Failed to read config ${file}:`, err.message);
+    throw err;
+  }
+  // Paths in the config file are relative to the file itself.
+  const dir = path.dirname(file);
+  for (const key of [
+    "modelsPath",
+    "migrationsPath",
+    "seedersPath",
+    "snapshotPath",
+    "keyFilename",
+  ] as const) {
+    if (config[key]) config[key] = path.resolve(dir, config[key]!);
+  }
+  for (const key of ["migrationStorage", "seederStorage"] as const) {
+    const storage = config[key];
+    if (storage && typeof storage === "object" && "file" in storage) {
+      config[key] = { file: path.resolve(dir, storage.file) };
+    }
+  }
+  return config;
+}
+
+export async function run(argv: string[]): Promise<void> {
+  const { command, args, flags } = parseArgs(argv);
+  if (!command || flags.help) {
+    console.log(USAGE);
+    return;
+  }
+  checkFlags(command, flags);
+
+  const {
+    modelsPath: configModelsPath,
+    migrationsPath: configMigrationsPath,
+    seedersPath: configSeedersPath,
+    snapshotPath: configSnapshotPath,
+    ...ormConfig
+  } = await loadConfig(stringFlag(flags, "config"));
+  const resolve = (flag: string, fallback?: string) => {
+    const value = stringFlag(flags, flag);
+    return value ? path.resolve(value) : fallback;
+  };
+  const modelsPath = resolve("models", configModelsPath);
+  const migrationsPath = resolve(
+    "migrations",
+    configMigrationsPath || path.resolve("migrations")
+  )!;
+  const seedersPath = resolve(
+    "seeders",
+    configSeedersPath || path.resolve("seeders")
+  )!;
+  const snapshotPath = resolve("snapshot", configSnapshotPath);
+  const relative = (file: string) => path.relative(process.cwd(), file);
+
+  if (command === "migration:create") {
+    if (!args[0]) throw new Error("Usage: bq-orm migration:create <name>");
+    console.log(
+      `Created ${relative(createMigration(migrationsPath, args[0]))}`
+    );
+    return;
+  }
+
+  const orm = new BigQueryORM(ormConfig);
+  const requireModels = async () => {
+    if (!modelsPath) {
+      throw new Error(
+        `${command} needs models; pass --models or set modelsPath in the config`
+      );
+    }
+    await orm.loadModels(modelsPath);
+  };
+  // Seeders and migrations may use the models through the ORM.
+  const loadModelsIfConfigured = async () => {
+    if (modelsPath) await orm.loadModels(modelsPath);
+  };
+
+  switch (command) {
+    case "migrate": {
+      const step = positiveIntegerFlag(flags, "step");
+      await loadModelsIfConfigured();
+      const ran = await orm.runMigrations(migrationsPath, {
+        to: stringFlag(flags, "to"),
+        step,
+        verifyChecksums: !flags["skip-checksums"],
+      });
+      ran.forEach((name) => console.log(`Migrated ${name}`));
+      if (!ran.length) console.log("No pending migrations");
+      break;
+    }
+    case "migrate:undo": {
+      await loadModelsIfConfigured();
+      const name = await orm.revertLastMigration(migrationsPath);
+      console.log(name ? `Reverted ${name}` : "No migrations to revert");
+      break;
+    }
+    case "migrate:undo:all": {
+      await loadModelsIfConfigured();
+      let count = 0;
+      let name: string | null;
+      while ((name = await orm.revertLastMigration(migrationsPath))) {
+        console.log(`Reverted ${name}`);
+        count++;
+      }
+      if (!count) console.log("No migrations to revert");
+      break;
+    }
+    case "migrate:status": {
+      const { executed, pending } = await orm.migrationStatus(migrationsPath);
+      const records = new Map(executed.map((r) => [r.name, r]));
+      const succeeded = executed.filter((r) => r.status === "succeeded");
+      for (const { name, executedAt, modified } of succeeded) {
+        console.log(
+          `up       ${name}${
+            executedAt ? `  (${executedAt.toISOString()})` : ""
+          }${modified ? "  [modified since it ran]" : ""}`
+        );
+      }
+      for (const name of pending) {
+        // Failed and interrupted runs are pending too; show why.
+        console.log(
+          `${(records.get(name)?.status || "down").padEnd(9)}${name}`
+        );
+      }
+      console.log(`\n${succeeded.length} executed, ${pending.length} pending`);
+      break;
+    }
+    case "migration:generate": {
+      if (!args[0]) throw new Error("Usage: bq-orm migration:generate <name>");
+      await requireModels();
+      const filePath = await orm.generateMigration(migrationsPath, args[0], {
+        snapshotPath,
+        detectRenames: !!flags["detect-renames"],
+        allowManualSteps: !!flags["allow-manual"],
+      });
+      console.log(
+        filePath
+          ? `Created ${relative(filePath)}`
+          : "No schema changes detected"
+      );
+      break;
+    }
+    case "db:sync": {
+      await requireModels();
+      const changes = await orm.sync({
+        force: !!flags.force,
+        alter: !!flags.alter,
+        dryRun: !!flags["dry-run"],
+      });
+      for (const change of changes) {
+        const prefix = flags["dry-run"]
+          ? "plan"
+          : change.applicable
+          ? "done"
+          : "skip";
+        console.log(`${prefix}  ${change.tableName}: ${change.description}`);
+      }
+      if (!changes.length) console.log("Schema is up to date");
+      break;
+    }
+    case "seed": {
+      await loadModelsIfConfigured();
+      const ran = await orm.runSeeders(seedersPath, {
+        only: args.length ? args : undefined,
+      });
+      ran.forEach((name) => console.log(`Seeded ${name}`));
+      if (!ran.length) console.log("No pending seeders");
+      break;
+    }
+    case "seed:undo": {
+      await loadModelsIfConfigured();
+      const name = await orm.revertLastSeeder(seedersPath);
+      console.log(name ? `Reverted ${name}` : "No seeders to revert");
+      break;
+    }
+    case "seed:undo:all": {
+      await loadModelsIfConfigured();
+      let count = 0;
+      let name: string | null;
+      while ((name = await orm.revertLastSeeder(seedersPath))) {
+        console.log(`Reverted ${name}`);
+        count++;
+      }
+      if (!count) console.log("No seeders to revert");
+      break;
+    }
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).catch((err: any) => {
+    console.error(err.message);
+    process.exit(1);
+  });
+}
@@ -26,9 +26,37 @@ interface ArrayType {
 
 interface StructType {
   type: "STRUCT";
-  fields: Record<string, DataType>;
+  fields: Record<string, AttributeType>;
 }
 
+export type AttributeValidator = (
+  value: any,
+  row: Record<string, any>
+) => void | boolean | Promise<void | boolean>;
+
+export interface AttributeValidators {
+  isEmail?: boolean;
+  len?: [number, number];
+  min?: number;
+  max?: number;
+  isIn?: any[];
+  is?: RegExp | string;
+  [custom: string]: AttributeValidator | any;
+}
+
+export interface AttributeDefinition {
+  type: DataType;
+  allowNull?: boolean;
+  defaultValue?: any;
+  description?: string;
+  maxLength?: number;
+  precision?: number;
+  scale?: number;
+  validate?: AttributeValidators;
+}
+
+export type AttributeType = DataType | AttributeDefinition;
+
 export const DataTypes = {
   STRING: "STRING" as const,
   BYTES: "BYTES" as const,
@@ -48,7 +76,7 @@ export const DataTypes = {
   GEOGRAPHY: "GEOGRAPHY" as const,
   JSON: "JSON" as const,
   ARRAY: (items: DataType): ArrayType => ({ type: "ARRAY", items }),
-  STRUCT: (fields: Record<string, DataType>): StructType => ({
+  STRUCT: (fields: Record<string, AttributeType>): StructType => ({
     type: "STRUCT",
     fields,
   }),
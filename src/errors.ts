@@ -0,0 +1,68 @@
+export class QueryBudgetExceededError extends Error {
+  constructor(
+    public totalBytesProcessed: number,
+    public maximumBytesBilled: number
+  ) {
+    super(
+      `Query would process ${totalBytesProcessed} bytes, exceeding the maximumBytesBilled budget of ${maximumBytesBilled} bytes.`
+    );
+    this.name = "QueryBudgetExceededError";
+  }
+}
+
+export class MigrationLockError extends Error {
+  constructor(public owner: string | null, public expiresAt: Date | null) {
+    super(
+      owner
+        ? `Migrations are locked by ${owner}${
+            expiresAt ? ` until ${expiresAt.toISOString()}` : ""
+          }.`
+        : "The migration lock expired or was taken over by another runner."
+    );
+    this.name = "MigrationLockError";
+  }
+}
+
+export class MigrationChecksumError extends Error {
+  constructor(public migrations: string[]) {
+    super(
+      `Executed migrations were modified after they ran: ${migrations.join(
+        ", "
+      )}. Restore the original files or pass verifyChecksums: false.`
+    );
+    this.name = "MigrationChecksumError";
+  }
+}
+
+export interface ValidationErrorItem {
+  rowIndex: number;
+  field: string | null;
+  validator: string;
+  message: string;
+  value?: any;
+}
+
+export class ValidationError extends Error {
+  constructor(public errors: ValidationErrorItem[]) {
+    super(
+      `Validation failed: ${errors
+        .map(
+          (e) =>
+            `row ${e.rowIndex}${e.field ? ` field ${e.field}` : ""}: ${
+              e.message
+            }`
+        )
+        .join("; ")}`
+    );
+    this.name = "ValidationError";
+  }
+}
+
+export class ReadOnlyModelError extends Error {
+  constructor(public viewName: string, public operation: string) {
+    super(
+      `${viewName} is a view and is read-only; ${operation} is not allowed.`
+    );
+    this.name = "ReadOnlyModelError";
+  }
+}
@@ -0,0 +1,326 @@
+import {
+  BigQuery,
+  JobLoadMetadata,
+  JobMetadata,
+  Query,
+  TableMetadata,
+} from "@google-cloud/bigquery";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export interface QueryResult {
+  rows: any[];
+  metadata: JobMetadata;
+}
+
+export interface QueryExecutor {
+  query(request: Query): Promise<QueryResult>;
+  queryPages(request: Query, pageSize?: number): AsyncIterable<any[]>;
+  insert(tableName: string, rows: Record<string, any>[]): Promise<void>;
+  load(
+    tableName: string,
+    filePath: string,
+    metadata: JobLoadMetadata
+  ): Promise<JobMetadata>;
+  ping(): Promise<void>;
+  datasetExists(): Promise<boolean>;
+  createDataset(): Promise<void>;
+  tableExists(tableName: string): Promise<boolean>;
+  createTable(tableName: string, metadata: TableMetadata): Promise<void>;
+  getTableMetadata(tableName: string): Promise<TableMetadata>;
+  setTableMetadata(tableName: string, metadata: TableMetadata): Promise<void>;
+  deleteTable(tableName: string): Promise<void>;
+}
+
+export class BigQueryExecutor implements QueryExecutor {
+  constructor(public bigquery: BigQuery, private datasetId: string) {}
+
+  async query(request: Query): Promise<QueryResult> {
+    const [job] = await this.bigquery.createQueryJob(request);
+    if (request.dryRun) {
+      return { rows: [], metadata: job.metadata };
+    }
+    const [rows] = await job.getQueryResults();
+    const [metadata] = await job.getMetadata();
+    return { rows, metadata };
+  }
+
+  async *queryPages(request: Query, pageSize?: number): AsyncIterable<any[]> {
+    const [job] = await this.bigquery.createQueryJob(request);
+    let pageToken: string | undefined;
+    do {
+      const [rows, nextQuery] = await job.getQueryResults({
+        autoPaginate: false,
+        maxResults: pageSize,
+        pageToken,
+      });
+      yield rows;
+      pageToken = nextQuery?.pageToken;
+    } while (pageToken);
+  }
+
+  async insert(tableName: string, rows: Record<string, any>[]): Promise<void> {
+    await this.bigquery.dataset(this.datasetId).table(tableName).insert(rows);
+  }
+
+  async load(
+    tableName: string,
+    filePath: string,
+    metadata: JobLoadMetadata
+  ): Promise<JobMetadata> {
+    // Resolves once the load job has completed.
+    const [jobMetadata] = await this.bigquery
+      .dataset(this.datasetId)
+      .table(tableName)
+      .load(filePath, metadata);
+    return jobMetadata;
+  }
+
+  async ping(): Promise<void> {
+    await this.bigquery.getDatasets({ maxResults: 1 });
+  }
+
+  async datasetExists(): Promise<boolean> {
+    const [exists] = await this.bigquery.dataset(this.datasetId).exists();
+    return exists;
+  }
+
+  async createDataset(): Promise<void> {
+    await this.bigquery.dataset(this.datasetId).create();
+  }
+
+  async tableExists(tableName: string): Promise<boolean> {
+    const [exists] = await this.bigquery
+      .dataset(this.datasetId)
+      .table(tableName)
+      .exists();
+    return exists;
+  }
+
+  async createTable(tableName: string, metadata: TableMetadata): Promise<void> {
+    await this.bigquery
+      .dataset(this.datasetId)
+      .table(tableName)
+      .create(metadata);
+  }
+
+  async getTableMetadata(tableName: string): Promise<TableMetadata> {
+    const [metadata] = await this.bigquery
+      .dataset(this.datasetId)
+      .table(tableName)
+      .getMetadata();
+    return metadata;
+  }
+
+  async setTableMetadata(
+    tableName: string,
+    metadata: TableMetadata
+  ): Promise<void> {
+    await this.bigquery
+      .dataset(this.datasetId)
+      .table(tableName)
+      .setMetadata(metadata);
+  }
+
+  async deleteTable(tableName: string): Promise<void> {
+    await this.bigquery.dataset(this.datasetId).table(tableName).delete();
+  }
+}
+
+/**
+ * Appends or replaces rows with a load job. The rows are written to a
+ * temporary NDJSON file, which is removed whether or not the job succeeds.
+ */
+export async function loadJsonRows(
+  executor: QueryExecutor,
+  tableName: string,
+  rows: Record<string, any>[],
+  metadata: JobLoadMetadata
+): Promise<JobMetadata> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "bq-orm-"));
+  const filePath = path.join(dir, `${tableName}.ndjson`);
+  try {
+    fs.writeFileSync(
+      filePath,
+      rows.map((row) => JSON.stringify(row)).join("\n") + "\n"
+    );
+    return await executor.load(tableName, filePath, {
+      ...metadata,
+      sourceFormat: "NEWLINE_DELIMITED_JSON",
+    });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+export interface RecordedLoad {
+  tableName: string;
+  filePath: string;
+  metadata: JobLoadMetadata;
+  contents: Buffer;
+}
+
+export interface RecordedQuery {
+  sql: string;
+  params: Record<string, any> | any[] | undefined;
+  request: Query;
+}
+
+type QueryMatcher = string | RegExp | ((query: RecordedQuery) => boolean);
+type CannedResult =
+  | any[]
+  | Partial<QueryResult>
+  | ((query: RecordedQuery) => any[] | Partial<QueryResult>);
+
+/**
+ * Executor that never talks to BigQuery. It records every statement,
+ * streaming insert and load job and answers queries with rows registered via `respond`,
+ * so code built on the ORM can be tested offline.
+ */
+export class MemoryExecutor implements QueryExecutor {
+  public queries: RecordedQuery[] = [];
+  public inserts: { tableName: string; rows: Record<string, any>[] }[] = [];
+  public loads: RecordedLoad[] = [];
+  public tables: Map<string, TableMetadata> = new Map();
+  public datasetCreated = false;
+  private responses: { matcher: QueryMatcher; result: CannedResult }[] = [];
+  private sessionCounter = 0;
+
+  respond(matcher: QueryMatcher, result: CannedResult): this {
+    this.responses.push({ matcher, result });
+    return this;
+  }
+
+  reset(): void {
+    this.queries = [];
+    this.inserts = [];
+    this.loads = [];
+    this.tables.clear();
+    this.datasetCreated = false;
+    this.responses = [];
+  }
+
+  get statements(): string[] {
+    return this.queries.map((q) => q.sql);
+  }
+
+  async query(request: Query): Promise<QueryResult> {
+    const recorded: RecordedQuery = {
+      sql: request.query || "",
+      params: request.params,
+      request,
+    };
+    this.queries.push(recorded);
+
+    const metadata: JobMetadata = {
+      statistics: {
+        totalBytesProcessed: "0",
+        query: { numDmlAffectedRows: "0" },
+      },
+    };
+    if (request.createSession) {
+      metadata.statistics!.sessionInfo = {
+        sessionId: `memory-session-${++this.sessionCounter}`,
+      };
+    }
+
+    // Later registrations win so tests can override broader defaults.
+    const match = [...this.responses]
+      .reverse()
+      .find(({ matcher }) => this.matches(matcher, recorded));
+    if (!match) return { rows: [], metadata };
+
+    const result =
+      typeof match.result === "function"
+        ? match.result(recorded)
+        : match.result;
+    if (Array.isArray(result)) {
+      return { rows: request.dryRun ? [] : result, metadata };
+    }
+    return {
+      rows: request.dryRun ? [] : result.rows || [],
+      metadata: { ...metadata, ...result.metadata },
+    };
+  }
+
+  async *queryPages(request: Query, pageSize?: number): AsyncIterable<any[]> {
+    const { rows } = await this.query(request);
+    if (!pageSize) {
+      yield rows;
+      return;
+    }
+    for (let i = 0; i < rows.length; i += pageSize) {
+      yield rows.slice(i, i + pageSize);
+    }
+  }
+
+  async insert(tableName: string, rows: Record<string, any>[]): Promise<void> {
+    this.inserts.push({ tableName, rows });
+  }
+
+  async load(
+    tableName: string,
+    filePath: string,
+    metadata: JobLoadMetadata
+  ): Promise<JobMetadata> {
+    // Read now since callers may delete temporary files once the load returns.
+    const contents = fs.readFileSync(filePath);
+    this.loads.push({ tableName, filePath, metadata, contents });
+    return { statistics: { load: { outputRows: "0" } } };
+  }
+
+  async ping(): Promise<void> {}
+
+  async datasetExists(): Promise<boolean> {
+    return this.datasetCreated;
+  }
+
+  async createDataset(): Promise<void> {
+    this.datasetCreated = true;
+  }
+
+  async tableExists(tableName: string): Promise<boolean> {
+    return this.tables.has(tableName);
+  }
+
+  async createTable(tableName: string, metadata: TableMetadata): Promise<void> {
+    if (this.tables.has(tableName)) {
+      throw new Error(`Already Exists: Table ${tableName}`);
+    }
+    // BigQuery accepts a bare field list but reports it back as { fields }.
+    const { schema } = metadata;
+    this.tables.set(
+      tableName,
+      Array.isArray(schema)
+        ? { ...metadata, schema: { fields: schema } }
+        : metadata
+    );
+  }
+
+  async getTableMetadata(tableName: string): Promise<TableMetadata> {
+    const metadata = this.tables.get(tableName);
+    if (!metadata) throw new Error(`Not found: Table ${tableName}`);
+    return metadata;
+  }
+
+  async setTableMetadata(
+    tableName: string,
+    metadata: TableMetadata
+  ): Promise<void> {
+    this.tables.set(tableName, {
+      ...(await this.getTableMetadata(tableName)),
+      ...metadata,
+    });
+  }
+
+  async deleteTable(tableName: string): Promise<void> {
+    this.tables.delete(tableName);
+  }
+
+  private matches(matcher: QueryMatcher, query: RecordedQuery): boolean {
+    if (typeof matcher === "string") return query.sql.includes(matcher);
+    if (matcher instanceof RegExp) return matcher.test(query.sql);
+    return matcher(query);
+  }
+}
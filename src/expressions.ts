@@ -0,0 +1,56 @@
+export class Col {
+  constructor(public name: string) {}
+}
+
+export class Fn {
+  constructor(public name: string, public args: any[]) {}
+}
+
+export class Literal {
+  constructor(public sql: string) {}
+}
+
+export type SqlExpression = Col | Fn | Literal;
+
+export function col(name: string): Col {
+  return new Col(name);
+}
+
+export function fn(name: string, ...args: any[]): Fn {
+  return new Fn(name, args);
+}
+
+export function literal(sql: string): Literal {
+  return new Literal(sql);
+}
+
+export function isExpression(value: any): value is SqlExpression {
+  return (
+    value instanceof Col || value instanceof Fn || value instanceof Literal
+  );
+}
+
+export function quoteColumn(name: string, alias?: string): string {
+  if (name.includes(".")) {
+    return name
+      .split(".")
+      .map((part) => `\`${part}\``)
+      .join(".");
+  }
+  return alias ? `\`${alias}\`.\`${name}\`` : `\`${name}\``;
+}
+
+export function renderExpression(
+  expr: SqlExpression,
+  resolveColumn: (name: string) => string,
+  bind: (value: any) => string
+): string {
+  if (expr instanceof Literal) return expr.sql;
+  if (expr instanceof Col) {
+    return expr.name === "*" ? "*" : resolveColumn(expr.name);
+  }
+  const args = expr.args.map((arg) =>
+    isExpression(arg) ? renderExpression(arg, resolveColumn, bind) : bind(arg)
+  );
+  return `${expr.name}(${args.join(", ")})`;
+}
@@ -0,0 +1,60 @@
+export type ModelHookName =
+  | "beforeValidate"
+  | "afterValidate"
+  | "beforeCreate"
+  | "afterCreate"
+  | "beforeBulkCreate"
+  | "afterBulkCreate"
+  | "beforeUpdate"
+  | "afterUpdate"
+  | "beforeDestroy"
+  | "afterDestroy"
+  | "beforeFind"
+  | "afterFind";
+
+export type HookName = ModelHookName | "afterSync";
+
+export type HookFunction = (...args: any[]) => void | Promise<void>;
+
+export type HookDefinitions<N extends string = ModelHookName> = Partial<
+  Record<N, HookFunction | HookFunction[]>
+>;
+
+/**
+ * Ordered lists of hook functions keyed by hook name. Hooks run one after
+ * another and async hooks are awaited before the next one starts.
+ */
+export class HookRegistry<N extends string = HookName> {
+  private hooks: Partial<Record<N, HookFunction[]>> = {};
+
+  constructor(definitions: HookDefinitions<N> = {}) {
+    for (const [name, fns] of Object.entries(definitions) as [
+      N,
+      HookFunction | HookFunction[]
+    ][]) {
+      for (const fn of Array.isArray(fns) ? fns : [fns]) this.add(name, fn);
+    }
+  }
+
+  add(name: N, fn: HookFunction): void {
+    (this.hooks[name] ||= []).push(fn);
+  }
+
+  remove(name: N, fn?: HookFunction): void {
+    if (!fn) {
+      delete this.hooks[name];
+      return;
+    }
+    this.hooks[name] = (this.hooks[name] || []).filter((h) => h !== fn);
+  }
+
+  has(name: N): boolean {
+    return !!this.hooks[name]?.length;
+  }
+
+  async run(name: N, ...args: any[]): Promise<void> {
+    for (const fn of this.hooks[name] || []) {
+      await fn(...args);
+    }
+  }
+}
@@ -1,7 +1,18 @@
 // File: src/index.ts
 export * from "./bigQueryORM";
 export * from "./dataTypes";
+export * from "./errors";
+export * from "./executor";
+export * from "./expressions";
+export * from "./hooks";
+export * from "./migrationGenerator";
+export * from "./migrationStorage";
+export * from "./migrator";
 export * from "./model";
 export * from "./op";
+export * from "./partitioning";
 export * from "./queryInterface";
+export * from "./schemaDiff";
+export * from "./transaction";
 export * from "./utils";
+export * from "./validation";
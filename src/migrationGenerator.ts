@@ -0,0 +1,391 @@
+import { TableField } from "@google-cloud/bigquery";
+import * as fs from "fs";
+import * as path from "path";
+import type { BigQueryORM } from "./bigQueryORM";
+import { AttributeDefinition, AttributeType, DataType } from "./dataTypes";
+import { Literal } from "./expressions";
+import type { Model } from "./model";
+import { modelTableOptions } from "./partitioning";
+import { diffTableSchema, SchemaChange } from "./schemaDiff";
+import {
+  dataTypeToSchemaField,
+  normalizeAttribute,
+  schemaFieldToAttribute,
+} from "./utils";
+
+export interface SchemaSnapshot {
+  version: 1;
+  tables: Record<string, { fields: TableField[]; clusterBy?: string[] }>;
+}
+
+export interface GenerateMigrationOptions {
+  // Compare against this snapshot file instead of the live dataset, and
+  // rewrite it after generating.
+  snapshotPath?: string;
+  // Write a single dropped column plus an added column of the same type as
+  // renameColumn instead of removeColumn/addColumn.
+  detectRenames?: boolean;
+  // Write changes that need hand-written steps as TODOs; the migration then
+  // throws until they are filled in. Otherwise generation fails.
+  allowManualSteps?: boolean;
+}
+
+interface MigrationStep {
+  up: string;
+  down: string;
+  // Set for changes the generator cannot write.
+  manual?: string;
+}
+
+export function snapshotModels(models: (typeof Model)[]): SchemaSnapshot {
+  const snapshot: SchemaSnapshot = { version: 1, tables: {} };
+  for (const model of models) {
+    snapshot.tables[model.tableName] = {
+      fields: Object.entries(model.attributes).map(([name, attribute]) =>
+        dataTypeToSchemaField(name, attribute)
+      ),
+      ...(model.clusterBy && { clusterBy: model.clusterBy }),
+    };
+  }
+  return snapshot;
+}
+
+export async function snapshotDataset(
+  orm: BigQueryORM,
+  models: (typeof Model)[]
+): Promise<SchemaSnapshot> {
+  const snapshot: SchemaSnapshot = { version: 1, tables: {} };
+  if (!(await orm.executor.datasetExists())) return snapshot;
+  for (const model of models) {
+    if (!(await orm.executor.tableExists(model.tableName))) continue;
+    const metadata = await orm.executor.getTableMetadata(model.tableName);
+    snapshot.tables[model.tableName] = {
+      fields: metadata.schema?.fields || [],
+      ...(metadata.clustering?.fields && {
+        clusterBy: metadata.clustering.fields,
+      }),
+    };
+  }
+  return snapshot;
+}
+
+function renderValue(value: any, indent: string): string {
+  if (value instanceof Literal) return `literal(${JSON.stringify(value.sql)})`;
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => renderValue(v, indent)).join(", ")}]`;
+  }
+  if (value && typeof value === "object") {
+    const inner = `${indent}  `;
+    const entries = Object.entries(value).map(
+      ([key, v]) =>
+        `${inner}${
+          /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+        }: ${renderValue(v, inner)},`
+    );
+    return entries.length ? `{\n${entries.join("\n")}\n${indent}}` : "{}";
+  }
+  return JSON.stringify(value);
+}
+
+function portableType(type: DataType): DataType {
+  if (typeof type === "string") return type;
+  if (type.type === "ARRAY") {
+    return { type: "ARRAY", items: portableType(type.items) };
+  }
+  return {
+    type: "STRUCT",
+    fields: Object.fromEntries(
+      Object.entries(type.fields).map(([name, field]) => [
+        name,
+        portableAttribute(field),
+      ])
+    ),
+  };
+}
+
+// Validators and JS-evaluated defaults only live in model code.
+function portableAttribute(attribute: AttributeType): AttributeType {
+  const { type, validate, defaultValue, ...rest } =
+    normalizeAttribute(attribute);
+  const definition: AttributeDefinition = {
+    type: portableType(type),
+    ...rest,
+  };
+  if (defaultValue !== undefined && typeof defaultValue !== "function") {
+    definition.defaultValue = defaultValue;
+  }
+  return Object.keys(definition).length === 1 ? definition.type : definition;
+}
+
+function renderAttribute(attribute: AttributeType, indent: string): string {
+  return renderValue(portableAttribute(attribute), indent);
+}
+
+function manualStep(change: SchemaChange): MigrationStep {
+  return {
+    up: `// TODO: ${change.description}`,
+    down: "",
+    manual: `${change.tableName}: ${change.description}`,
+  };
+}
+
+function columnSteps(
+  changes: SchemaChange[],
+  liveFields: TableField[],
+  detectRenames = false
+): MigrationStep[] {
+  const steps: MigrationStep[] = [];
+  const q = JSON.stringify;
+  const adds = changes.filter(
+    (c) => c.action === "addColumn" && !c.column!.includes(".")
+  );
+  const drops = changes.filter(
+    (c) => c.action === "dropColumn" && !c.column!.includes(".")
+  );
+  // A single top-level drop plus an add of the same type may be a rename,
+  // but it is only written as one when asked for.
+  if (adds.length === 1 && drops.length === 1 && adds[0].to === drops[0].from) {
+    const [from, to] = [drops[0].column!, adds[0].column!];
+    if (detectRenames) {
+      steps.push({
+        up: `// Detected as a rename; replace with removeColumn/addColumn if not.\n    await queryInterface.renameColumn(${q(
+          adds[0].tableName
+        )}, ${q(from)}, ${q(to)});`,
+        down: `await queryInterface.renameColumn(${q(adds[0].tableName)}, ${q(
+          to
+        )}, ${q(from)});`,
+      });
+      changes = changes.filter((c) => c !== adds[0] && c !== drops[0]);
+    } else {
+      steps.push({
+        up: `// If ${from} was renamed to ${to}, use renameColumn instead to keep its data.`,
+        down: "",
+      });
+    }
+  }
+
+  for (const change of changes) {
+    const table = q(change.tableName);
+    const column = q(change.column);
+    switch (change.action) {
+      case "addColumn":
+        steps.push({
+          up: `await queryInterface.addColumn(${table}, ${column}, ${renderAttribute(
+            change.attribute!,
+            "    "
+          )});`,
+          down: change.column!.includes(".")
+            ? `// BigQuery cannot drop nested field ${change.column}.`
+            : `await queryInterface.removeColumn(${table}, ${column});`,
+        });
+        break;
+      case "relaxColumn":
+        steps.push({
+          up: `await queryInterface.relaxColumn(${table}, ${column});`,
+          down: `// BigQuery cannot make ${change.column} REQUIRED again.`,
+        });
+        break;
+      case "widenColumn":
+        if (!change.applicable) {
+          steps.push(manualStep(change));
+          break;
+        }
+        steps.push({
+          up: `await queryInterface.changeColumn(${table}, ${column}, ${renderAttribute(
+            change.attribute!,
+            "    "
+          )});`,
+          down: `// BigQuery cannot narrow ${change.column} back to ${change.from}.`,
+        });
+        break;
+      case "dropColumn": {
+        const field = liveFields.find((f) => f.name === change.column);
+        if (!field) {
+          steps.push(manualStep(change));
+          break;
+        }
+        steps.push({
+          up: `await queryInterface.removeColumn(${table}, ${column});`,
+          down: `await queryInterface.addColumn(${table}, ${column}, ${renderAttribute(
+            schemaFieldToAttribute(field),
+            "    "
+          )});`,
+        });
+        break;
+      }
+      default:
+        steps.push(manualStep(change));
+    }
+  }
+  return steps;
+}
+
+export function planMigration(
+  current: SchemaSnapshot,
+  models: (typeof Model)[],
+  options: Pick<GenerateMigrationOptions, "detectRenames"> = {}
+): MigrationStep[] {
+  const steps: MigrationStep[] = [];
+  const q = JSON.stringify;
+  for (const model of models) {
+    const table = q(model.tableName);
+    const existing = current.tables[model.tableName];
+    if (!existing) {
+      const attributes = Object.fromEntries(
+        Object.entries(model.attributes).map(([name, attribute]) => [
+          name,
+          portableAttribute(attribute),
+        ])
+      );
+      const tableOptions = modelTableOptions(model);
+      const options = Object.keys(tableOptions).length
+        ? `, ${renderValue(tableOptions, "    ")}`
+        : "";
+      steps.push({
+        up: `await queryInterface.createTable(${table}, ${renderValue(
+          attributes,
+          "    "
+        )}${options});`,
+        down: `await queryInterface.dropTable(${table});`,
+      });
+      continue;
+    }
+    steps.push(
+      ...columnSteps(
+        diffTableSchema(model.tableName, model.attributes, existing.fields),
+        existing.fields,
+        options.detectRenames
+      )
+    );
+    const clusterBy = model.clusterBy || [];
+    const currentClusterBy = existing.clusterBy || [];
+    if (
+      clusterBy.join(",") !== currentClusterBy.join(",") &&
+      clusterBy.length
+    ) {
+      steps.push({
+        up: `await queryInterface.addClustering(${table}, ${q(clusterBy)});`,
+        down: currentClusterBy.length
+          ? `await queryInterface.addClustering(${table}, ${q(
+              currentClusterBy
+            )});`
+          : `// ${model.tableName} had no clustering before this migration.`,
+      });
+    }
+  }
+  return steps;
+}
+
+export function renderMigration(steps: MigrationStep[]): string {
+  const body = (lines: string[]) =>
+    lines
+      .filter((line) => line)
+      .map((line) => `    ${line}`)
+      .join("\n");
+  const source = steps.map((s) => s.up + s.down).join("\n");
+  const imports = source.includes("literal(")
+    ? `const { literal } = require("bq-orm");\n\n`
+    : "";
+  // Keeps a migration with unwritten steps from being recorded as run.
+  const guard = steps.some((s) => s.manual)
+    ? `throw new Error("Fill in the TODO steps of this migration, then remove this line.");`
+    : "";
+  return `"use strict";
+
+${imports}module.exports = {
+  async up(queryInterface, orm) {
+${body([guard, ...steps.map((s) => s.up)])}
+  },
+
+  async down(queryInterface, orm) {
+${body(steps.map((s) => s.down).reverse())}
+  },
+};
+`;
+}
+
+function timestamp(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+}
+
+function writeMigrationFile(
+  migrationsPath: string,
+  name: string,
+  source: string
+): string {
+  fs.mkdirSync(migrationsPath, { recursive: true });
+  const slug = name
+    .trim()
+    .replace(/[^A-Za-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .toLowerCase();
+  const filePath = path.join(
+    migrationsPath,
+    `${timestamp(new Date())}-${slug || "migration"}.js`
+  );
+  if (fs.existsSync(filePath)) {
+    throw new Error(`Migration file already exists: ${filePath}`);
+  }
+  fs.writeFileSync(filePath, source);
+  return filePath;
+}
+
+// Writes an empty migration to fill in by hand.
+export function createMigration(migrationsPath: string, name: string): string {
+  return writeMigrationFile(
+    migrationsPath,
+    name,
+    renderMigration([
+      {
+        up: "// await queryInterface.createTable(...);",
+        down: "// await queryInterface.dropTable(...);",
+      },
+    ])
+  );
+}
+
+export async function generateMigration(
+  orm: BigQueryORM,
+  migrationsPath: string,
+  name: string,
+  options: GenerateMigrationOptions = {}
+): Promise<string | null> {
+  // Views are recreated by sync rather than migrated.
+  const models = Object.values(orm.models).filter((model) => !model.view);
+  let current: SchemaSnapshot;
+  if (options.snapshotPath) {
+    current = fs.existsSync(options.snapshotPath)
+      ? JSON.parse(fs.readFileSync(options.snapshotPath, "utf8"))
+      : { version: 1, tables: {} };
+  } else {
+    current = await snapshotDataset(orm, models);
+  }
+
+  const steps = planMigration(current, models, options);
+  if (!steps.length) {
+    if (orm.config.logging)
+      console.log("Models match the schema; no migration generated");
+    return null;
+  }
+  const manual = steps.filter((s) => s.manual).map((s) => s.manual);
+  if (manual.length && !options.allowManualSteps) {
+    throw new Error(
+      `These changes cannot be generated and need a hand-written migration:\n  ${manual.join(
+        "\n  "
+      )}\nPass allowManualSteps to write them as TODOs.`
+    );
+  }
+  const filePath = writeMigrationFile(
+    migrationsPath,
+    name,
+    renderMigration(steps)
+  );
+  if (options.snapshotPath) {
+    fs.writeFileSync(
+      options.snapshotPath,
+      JSON.stringify(snapshotModels(models), null, 2) + "\n"
+    );
+  }
+  if (orm.config.logging) console.log(`Generated migration ${filePath}`);
+  return filePath;
+}
@@ -0,0 +1,403 @@
+import { TableField } from "@google-cloud/bigquery";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { BigQueryORM } from "./bigQueryORM";
+import { MigrationLockError } from "./errors";
+import { loadJsonRows } from "./executor";
+
+export type MigrationRunStatus = "running" | "succeeded" | "failed";
+
+export interface MigrationRecord {
+  name: string;
+  executedAt: Date | null;
+  checksum: string | null;
+  status: MigrationRunStatus;
+}
+
+/**
+ * Where executed migrations are recorded. `save` inserts or replaces the
+ * record with the same name; `acquireLock` returns an owner token or throws
+ * `MigrationLockError` while another runner holds an unexpired lock.
+ */
+export interface MigrationStorage {
+  setup(): Promise<void>;
+  records(): Promise<MigrationRecord[]>;
+  save(record: MigrationRecord): Promise<void>;
+  remove(name: string): Promise<void>;
+  acquireLock(ttl: number): Promise<string>;
+  renewLock(owner: string, ttl: number): Promise<void>;
+  releaseLock(owner: string): Promise<void>;
+}
+
+// "table" records with DML, "loadJob" rewrites the table with load jobs (no
+// DML, the free tier default) and `{ file }` keeps a local JSON file.
+export type MigrationStorageOption =
+  | MigrationStorage
+  | "table"
+  | "loadJob"
+  | { file: string };
+
+const RECORD_FIELDS: TableField[] = [
+  { name: "name", type: "STRING" },
+  { name: "executed_at", type: "TIMESTAMP" },
+  { name: "checksum", type: "STRING" },
+  { name: "status", type: "STRING" },
+];
+
+function lockOwner(): string {
+  return `${os.hostname()}:${process.pid}:${randomUUID()}`;
+}
+
+function toDate(value: any): Date | null {
+  return value ? new Date(value.value ?? value) : null;
+}
+
+function sortRecords(records: MigrationRecord[]): MigrationRecord[] {
+  return records.sort(
+    (a, b) => (a.executedAt?.getTime() || 0) - (b.executedAt?.getTime() || 0)
+  );
+}
+
+async function ensureRecordTable(
+  orm: BigQueryORM,
+  tableName: string
+): Promise<void> {
+  if (!(await orm.executor.tableExists(tableName))) {
+    await orm.executor.createTable(tableName, { schema: RECORD_FIELDS });
+    if (orm.config.logging) console.log(`Created ${tableName} table`);
+    return;
+  }
+  // Tables from older versions lack the checksum and status columns.
+  const { schema } = await orm.executor.getTableMetadata(tableName);
+  const current = schema?.fields || [];
+  const missing = RECORD_FIELDS.filter(
+    (f) => !current.some((c) => c.name === f.name)
+  );
+  if (missing.length) {
+    await orm.executor.setTableMetadata(tableName, {
+      schema: { fields: [...current, ...missing] },
+    });
+  }
+}
+
+async function queryRecords(
+  orm: BigQueryORM,
+  tableName: string
+): Promise<MigrationRecord[]> {
+  const { rows } = await orm.executor.query({
+    query: `SELECT name, executed_at, checksum, status FROM \`${orm.config.projectId}.${orm.config.dataset}.${tableName}\` ORDER BY executed_at ASC`,
+  });
+  return rows.map((r: any) => ({
+    name: r.name,
+    executedAt: toDate(r.executed_at),
+    checksum: r.checksum ?? null,
+    // Rows recorded before status tracking only exist for successful runs.
+    status: r.status || "succeeded",
+  }));
+}
+
+/**
+ * Records migrations in a BigQuery table with DML statements and locks with a
+ * row in `<tableName>_lock`. Not available in free tier mode.
+ */
+export class BigQueryTableStorage implements MigrationStorage {
+  constructor(private orm: BigQueryORM, public tableName = "migrations") {}
+
+  private get table(): string {
+    return `\`${this.orm.config.projectId}.${this.orm.config.dataset}.${this.tableName}\``;
+  }
+
+  private get lockTable(): string {
+    return `\`${this.orm.config.projectId}.${this.orm.config.dataset}.${this.tableName}_lock\``;
+  }
+
+  async setup(): Promise<void> {
+    if (this.orm.config.freeTierMode) {
+      throw new Error(
+        'Free tier mode: DML migration tracking not allowed. Use the "loadJob" or file migration storage, or enable billing at https://console.cloud.google.com/billing.'
+      );
+    }
+    await ensureRecordTable(this.orm, this.tableName);
+    if (!(await this.orm.executor.tableExists(`${this.tableName}_lock`))) {
+      await this.orm.executor.createTable(`${this.tableName}_lock`, {
+        schema: [
+          { name: "id", type: "STRING" },
+          { name: "owner", type: "STRING" },
+          { name: "acquired_at", type: "TIMESTAMP" },
+          { name: "expires_at", type: "TIMESTAMP" },
+        ],
+      });
+      if (this.orm.config.logging)
+        console.log(`Created ${this.tableName}_lock table`);
+    }
+  }
+
+  records(): Promise<MigrationRecord[]> {
+    return queryRecords(this.orm, this.tableName);
+  }
+
+  async save(record: MigrationRecord): Promise<void> {
+    await this.orm.executor.query({
+      query: `MERGE ${this.table} T USING (SELECT @name AS name) S ON T.name = S.name WHEN MATCHED THEN UPDATE SET executed_at = @executed_at, checksum = @checksum, status = @status WHEN NOT MATCHED THEN INSERT (name, executed_at, checksum, status) VALUES (@name, @executed_at, @checksum, @status)`,
+      params: {
+        name: record.name,
+        executed_at: record.executedAt || new Date(),
+        checksum: record.checksum,
+        status: record.status,
+      },
+      types: { checksum: "STRING" },
+    });
+  }
+
+  async remove(name: string): Promise<void> {
+    await this.orm.executor.query({
+      query: `DELETE FROM ${this.table} WHERE name = @name`,
+      params: { name },
+    });
+  }
+
+  async acquireLock(ttl: number): Promise<string> {
+    const owner = lockOwner();
+    const expiresAt = `TIMESTAMP_ADD(CURRENT_TIMESTAMP(), INTERVAL @ttl MILLISECOND)`;
+    try {
+      await this.orm.executor.query({
+        query: `MERGE ${this.lockTable} T USING (SELECT @id AS id) S ON T.id = S.id WHEN MATCHED AND T.expires_at <= CURRENT_TIMESTAMP() THEN UPDATE SET owner = @owner, acquired_at = CURRENT_TIMESTAMP(), expires_at = ${expiresAt} WHEN NOT MATCHED THEN INSERT (id, owner, acquired_at, expires_at) VALUES (S.id, @owner, CURRENT_TIMESTAMP(), ${expiresAt})`,
+        params: { id: this.tableName, owner, ttl },
+      });
+    } catch (err: any) {
+      // BigQuery aborts one of two concurrent MERGEs; the loser reads the winner's row below.
+      if (!/concurrent/i.test(err.message)) throw err;
+    }
+    const { rows } = await this.orm.executor.query({
+      query: `SELECT owner, expires_at FROM ${this.lockTable} WHERE id = @id`,
+      params: { id: this.tableName },
+    });
+    if (rows[0]?.owner !== owner) {
+      throw new MigrationLockError(
+        rows[0]?.owner ?? null,
+        toDate(rows[0]?.expires_at)
+      );
+    }
+    return owner;
+  }
+
+  async renewLock(owner: string, ttl: number): Promise<void> {
+    const { metadata } = await this.orm.executor.query({
+      query: `UPDATE ${this.lockTable} SET expires_at = TIMESTAMP_ADD(CURRENT_TIMESTAMP(), INTERVAL @ttl MILLISECOND) WHERE id = @id AND owner = @owner`,
+      params: { id: this.tableName, owner, ttl },
+    });
+    if (!Number(metadata.statistics?.query?.numDmlAffectedRows || 0)) {
+      // The TTL ran out and another runner may have taken over.
+      throw new MigrationLockError(null, null);
+    }
+  }
+
+  async releaseLock(owner: string): Promise<void> {
+    await this.orm.executor.query({
+      query: `DELETE FROM ${this.lockTable} WHERE id = @id AND owner = @owner`,
+      params: { id: this.tableName, owner },
+    });
+  }
+}
+
+/**
+ * Records migrations without DML: every change rewrites the table with a
+ * WRITE_TRUNCATE load job. The lock is a `<tableName>_lease` table whose
+ * creation fails while another runner holds it and which BigQuery expires
+ * after the TTL.
+ */
+export class LoadJobTableStorage implements MigrationStorage {
+  constructor(private orm: BigQueryORM, public tableName = "migrations") {}
+
+  private get leaseTable(): string {
+    return `${this.tableName}_lease`;
+  }
+
+  async setup(): Promise<void> {
+    await ensureRecordTable(this.orm, this.tableName);
+  }
+
+  records(): Promise<MigrationRecord[]> {
+    return queryRecords(this.orm, this.tableName);
+  }
+
+  private async write(records: MigrationRecord[]): Promise<void> {
+    await loadJsonRows(
+      this.orm.executor,
+      this.tableName,
+      records.map((r) => ({
+        name: r.name,
+        executed_at: r.executedAt?.toISOString() ?? null,
+        checksum: r.checksum,
+        status: r.status,
+      })),
+      { writeDisposition: "WRITE_TRUNCATE", schema: { fields: RECORD_FIELDS } }
+    );
+  }
+
+  async save(record: MigrationRecord): Promise<void> {
+    const records = (await this.records()).filter(
+      (r) => r.name !== record.name
+    );
+    await this.write([...records, record]);
+  }
+
+  async remove(name: string): Promise<void> {
+    await this.write((await this.records()).filter((r) => r.name !== name));
+  }
+
+  async acquireLock(ttl: number): Promise<string> {
+    const owner = lockOwner();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.orm.executor.createTable(this.leaseTable, {
+          description: owner,
+          expirationTime: String(Date.now() + ttl),
+          schema: [{ name: "owner", type: "STRING" }],
+        });
+        return owner;
+      } catch (err: any) {
+        if (!/already exists/i.test(err.message)) throw err;
+      }
+      const lease = await this.orm.executor.getTableMetadata(this.leaseTable);
+      const expiresAt = lease.expirationTime
+        ? new Date(Number(lease.expirationTime))
+        : null;
+      // BigQuery deletes expired tables lazily; clear a stale lease once.
+      if (attempt === 0 && expiresAt && expiresAt.getTime() <= Date.now()) {
+        await this.orm.executor.deleteTable(this.leaseTable);
+        continue;
+      }
+      throw new MigrationLockError(lease.description ?? null, expiresAt);
+    }
+  }
+
+  private async ownsLease(owner: string): Promise<boolean> {
+    if (!(await this.orm.executor.tableExists(this.leaseTable))) return false;
+    const lease = await this.orm.executor.getTableMetadata(this.leaseTable);
+    return lease.description === owner;
+  }
+
+  async renewLock(owner: string, ttl: number): Promise<void> {
+    if (!(await this.ownsLease(owner)))
+      throw new MigrationLockError(null, null);
+    await this.orm.executor.setTableMetadata(this.leaseTable, {
+      expirationTime: String(Date.now() + ttl),
+    });
+  }
+
+  async releaseLock(owner: string): Promise<void> {
+    if (await this.ownsLease(owner)) {
+      await this.orm.executor.deleteTable(this.leaseTable);
+    }
+  }
+}
+
+/**
+ * Records migrations in a local JSON file and locks with `<file>.lock`. The
+ * lock only coordinates runners that share the file system.
+ */
+export class JsonFileStorage implements MigrationStorage {
+  constructor(public filePath: string) {}
+
+  private get lockPath(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  async setup(): Promise<void> {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+  }
+
+  async records(): Promise<MigrationRecord[]> {
+    if (!fs.existsSync(this.filePath)) return [];
+    const { migrations = [] } = JSON.parse(
+      fs.readFileSync(this.filePath, "utf8")
+    );
+    return sortRecords(
+      migrations.map((r: any) => ({ ...r, executedAt: toDate(r.executedAt) }))
+    );
+  }
+
+  private write(records: MigrationRecord[]): void {
+    // Write then rename so a crash never leaves a truncated file.
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(
+      tempPath,
+      JSON.stringify({ migrations: records }, null, 2) + "\n"
+    );
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  async save(record: MigrationRecord): Promise<void> {
+    const records = (await this.records()).filter(
+      (r) => r.name !== record.name
+    );
+    this.write([...records, record]);
+  }
+
+  async remove(name: string): Promise<void> {
+    this.write((await this.records()).filter((r) => r.name !== name));
+  }
+
+  private readLock(): { owner: string; expiresAt: string } | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.lockPath, "utf8"));
+    } catch (err: any) {
+      if (err.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async acquireLock(ttl: number): Promise<string> {
+    const owner = lockOwner();
+    const contents = JSON.stringify({
+      owner,
+      expiresAt: new Date(Date.now() + ttl).toISOString(),
+    });
+    for (let attempt = 0; ; attempt++) {
+      try {
+        fs.writeFileSync(this.lockPath, contents, { flag: "wx" });
+        return owner;
+      } catch (err: any) {
+        if (err.code !== "EEXIST") throw err;
+      }
+      const lock = this.readLock();
+      const expiresAt = lock ? new Date(lock.expiresAt) : null;
+      if (attempt === 0 && (!expiresAt || expiresAt.getTime() <= Date.now())) {
+        fs.rmSync(this.lockPath, { force: true });
+        continue;
+      }
+      throw new MigrationLockError(lock?.owner ?? null, expiresAt);
+    }
+  }
+
+  async renewLock(owner: string, ttl: number): Promise<void> {
+    if (this.readLock()?.owner !== owner)
+      throw new MigrationLockError(null, null);
+    fs.writeFileSync(
+      this.lockPath,
+      JSON.stringify({
+        owner,
+        expiresAt: new Date(Date.now() + ttl).toISOString(),
+      })
+    );
+  }
+
+  async releaseLock(owner: string): Promise<void> {
+    if (this.readLock()?.owner === owner) fs.rmSync(this.lockPath);
+  }
+}
+
+export function createMigrationStorage(
+  orm: BigQueryORM,
+  option?: MigrationStorageOption,
+  tableName = "migrations"
+): MigrationStorage {
+  const resolved = option ?? (orm.config.freeTierMode ? "loadJob" : "table");
+  if (resolved === "table") return new BigQueryTableStorage(orm, tableName);
+  if (resolved === "loadJob") return new LoadJobTableStorage(orm, tableName);
+  if ("file" in resolved) return new JsonFileStorage(resolved.file);
+  return resolved;
+}
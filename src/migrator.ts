@@ -0,0 +1,317 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { BigQueryORM } from "./bigQueryORM";
+import { MigrationChecksumError } from "./errors";
+import { MigrationRecord, MigrationStorage } from "./migrationStorage";
+
+export interface MigrationStatus {
+  // `modified` is set when the file changed after the migration ran.
+  executed: (MigrationRecord & { modified: boolean })[];
+  pending: string[];
+}
+
+export interface RunMigrationsOptions {
+  // Run up to and including this migration (file name, extension optional).
+  to?: string;
+  // Run at most this many pending migrations.
+  step?: number;
+  // Refuse to run when executed migration files were edited (default true).
+  verifyChecksums?: boolean;
+  // Milliseconds before a lock left by a crashed runner can be taken over.
+  lockTtl?: number;
+}
+
+export interface RunSeedersOptions {
+  // Only run these seeders (file names, extension optional).
+  only?: string[];
+  lockTtl?: number;
+}
+
+const LOCK_TTL = 15 * 60 * 1000;
+
+function scriptName(file: string): string {
+  return path.basename(file, path.extname(file));
+}
+
+/**
+ * Runs a directory of `up`/`down` modules in file name order and records
+ * them in a `MigrationStorage`. Used for both migrations and seeders.
+ */
+export class Migrator {
+  constructor(
+    private orm: BigQueryORM,
+    private storage: MigrationStorage,
+    private kind: "migration" | "seeder" = "migration"
+  ) {}
+
+  private get label(): string {
+    return this.kind[0].toUpperCase() + this.kind.slice(1);
+  }
+
+  files(dirPath: string): string[] {
+    if (!fs.existsSync(dirPath)) return [];
+    return fs
+      .readdirSync(dirPath)
+      .filter(
+        (f) => !f.endsWith(".d.ts") && (f.endsWith(".ts") || f.endsWith(".js"))
+      )
+      .sort();
+  }
+
+  private checksum(dirPath: string, file: string): string {
+    return createHash("sha256")
+      .update(fs.readFileSync(path.resolve(dirPath, file)))
+      .digest("hex");
+  }
+
+  private async load(dirPath: string, file: string): Promise<any> {
+    const module = await import(path.resolve(dirPath, file));
+    return module.default || module;
+  }
+
+  async setup(): Promise<void> {
+    const dsExists = await this.orm.executor.datasetExists();
+    if (!dsExists) {
+      try {
+        await this.orm.executor.createDataset();
+        if (this.orm.config.logging)
+          console.log(`Created dataset ${this.orm.config.dataset}`);
+      } catch (err: any) {
+        console.error(
+          `Failed to create dataset ${this.orm.config.dataset}:`,
+          err.message
+        );
+        throw err;
+      }
+    }
+    try {
+      await this.storage.setup();
+    } catch (err: any) {
+      console.error(`Failed to set up ${this.kind} storage:`, err.message);
+      throw err;
+    }
+  }
+
+  private async acquireLock(ttl: number): Promise<string> {
+    try {
+      const owner = await this.storage.acquireLock(ttl);
+      if (this.orm.config.logging)
+        console.log(`Acquired ${this.kind} lock ${owner}`);
+      return owner;
+    } catch (err: any) {
+      console.error(`Failed to acquire ${this.kind} lock:`, err.message);
+      throw err;
+    }
+  }
+
+  private async releaseLock(owner: string): Promise<void> {
+    try {
+      await this.storage.releaseLock(owner);
+    } catch (err: any) {
+      // The lock expires on its own; don't mask the outcome of the run.
+      console.error(`Failed to release ${this.kind} lock:`, err.message);
+    }
+  }
+
+  // Renews the lock while a long `up` or `down` runs so another runner can't
+  // take it over once the TTL passes. Returns a function that stops renewing.
+  private keepLock(owner: string, ttl: number): () => void {
+    const timer = setInterval(() => {
+      this.storage.renewLock(owner, ttl).catch((err: any) => {
+        console.error(`Failed to renew ${this.kind} lock:`, err.message);
+      });
+    }, ttl / 3);
+    timer.unref?.();
+    return () => clearInterval(timer);
+  }
+
+  async records(): Promise<MigrationRecord[]> {
+    try {
+      return await this.storage.records();
+    } catch (err: any) {
+      console.error(`Failed to query ${this.kind}s:`, err.message);
+      throw err;
+    }
+  }
+
+  async modified(dirPath: string): Promise<string[]> {
+    const files = new Map(this.files(dirPath).map((f) => [scriptName(f), f]));
+    return (await this.records())
+      .filter((record) => {
+        const file = files.get(record.name);
+        return (
+          record.status === "succeeded" &&
+          record.checksum &&
+          file &&
+          this.checksum(dirPath, file) !== record.checksum
+        );
+      })
+      .map((record) => record.name);
+  }
+
+  async run(
+    dirPath: string,
+    options: RunMigrationsOptions & { only?: string[] } = {}
+  ): Promise<string[]> {
+    const {
+      to,
+      step,
+      only,
+      verifyChecksums = true,
+      lockTtl = LOCK_TTL,
+    } = options;
+
+    await this.setup();
+    const owner = await this.acquireLock(lockTtl);
+    const ran: string[] = [];
+    try {
+      const records = new Map((await this.records()).map((r) => [r.name, r]));
+      // We hold the lock, so a "running" record was left by a crashed run.
+      const interrupted = [...records.values()].find(
+        (r) => r.status === "running"
+      );
+      if (interrupted) {
+        throw new Error(
+          `${this.label} ${interrupted.name} was interrupted while running. Check whether it was applied, then set its status to "succeeded" or "failed" in the ${this.kind} storage.`
+        );
+      }
+      if (verifyChecksums) {
+        const modified = await this.modified(dirPath);
+        if (modified.length) throw new MigrationChecksumError(modified);
+      }
+
+      const files = this.files(dirPath);
+      let pending = files.filter(
+        (f) => records.get(scriptName(f))?.status !== "succeeded"
+      );
+      if (only) {
+        const missing = only.filter(
+          (name) => !files.some((f) => f === name || scriptName(f) === name)
+        );
+        if (missing.length) {
+          throw new Error(`${this.label} file not found: ${missing[0]}`);
+        }
+        pending = pending.filter(
+          (f) => only.includes(f) || only.includes(scriptName(f))
+        );
+      }
+      if (to !== undefined) {
+        const target = files.find((f) => f === to || scriptName(f) === to);
+        if (!target) throw new Error(`${this.label} file not found: ${to}`);
+        pending = pending.filter((f) => f <= target);
+      }
+      if (step !== undefined) pending = pending.slice(0, step);
+      if (this.orm.config.logging) {
+        for (const record of records.values()) {
+          if (record.status === "succeeded")
+            console.log(
+              `Skipping ${this.kind} ${record.name} (already executed)`
+            );
+        }
+      }
+
+      for (const file of pending) {
+        const name = scriptName(file);
+        let script: any;
+        try {
+          script = await this.load(dirPath, file);
+        } catch (err: any) {
+          console.error(`Failed to load ${this.kind} ${name}:`, err.message);
+          throw err;
+        }
+        const record: MigrationRecord = {
+          name,
+          executedAt: new Date(),
+          checksum: this.checksum(dirPath, file),
+          status: "running",
+        };
+        await this.storage.save(record);
+
+        const stopRenewing = this.keepLock(owner, lockTtl);
+        try {
+          await script.up(this.orm.getQueryInterface(), this.orm);
+        } catch (err: any) {
+          console.error(`Failed to run ${this.kind} ${name}:`, err.message);
+          try {
+            await this.storage.save({ ...record, status: "failed" });
+          } catch (recordErr: any) {
+            console.error(
+              `Failed to record ${this.kind} ${name} as failed:`,
+              recordErr.message
+            );
+          }
+          throw err;
+        } finally {
+          stopRenewing();
+        }
+        await this.storage.save({
+          ...record,
+          executedAt: new Date(),
+          status: "succeeded",
+        });
+        ran.push(name);
+        if (this.orm.config.logging)
+          console.log(`${this.label} ${name} executed and recorded`);
+      }
+    } finally {
+      await this.releaseLock(owner);
+    }
+    return ran;
+  }
+
+  async status(dirPath: string): Promise<MigrationStatus> {
+    await this.setup();
+    const records = await this.records();
+    const modified = new Set(
+      records.length ? await this.modified(dirPath) : []
+    );
+    const succeeded = new Set(
+      records.filter((r) => r.status === "succeeded").map((r) => r.name)
+    );
+    const pending = this.files(dirPath)
+      .map(scriptName)
+      .filter((name) => !succeeded.has(name));
+    return {
+      executed: records.map((r) => ({ ...r, modified: modified.has(r.name) })),
+      pending,
+    };
+  }
+
+  async revertLast(dirPath: string): Promise<string | null> {
+    await this.setup();
+    const owner = await this.acquireLock(LOCK_TTL);
+    try {
+      const last = (await this.records())
+        .filter((r) => r.status === "succeeded")
+        .pop();
+      if (!last) {
+        if (this.orm.config.logging) console.log(`No ${this.kind}s to revert`);
+        return null;
+      }
+      const name = last.name;
+
+      const file = this.files(dirPath).find((f) => scriptName(f) === name);
+      if (!file) {
+        throw new Error(`${this.label} file not found: ${name}`);
+      }
+      const script = await this.load(dirPath, file);
+
+      const stopRenewing = this.keepLock(owner, LOCK_TTL);
+      try {
+        await script.down(this.orm.getQueryInterface(), this.orm);
+        await this.storage.remove(name);
+        if (this.orm.config.logging)
+          console.log(`Reverted ${this.kind} ${name}`);
+        return name;
+      } catch (err: any) {
+        console.error(`Failed to revert ${this.kind} ${name}:`, err.message);
+        throw err;
+      } finally {
+        stopRenewing();
+      }
+    } finally {
+      await this.releaseLock(owner);
+    }
+  }
+}
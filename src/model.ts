@@ -1,8 +1,35 @@
-import { BigQuery, Job } from "@google-cloud/bigquery";
-import { BigQueryORM } from "./bigQueryORM";
+import { JobLoadMetadata, JobMetadata } from "@google-cloud/bigquery";
+import * as fs from "fs";
+import { Readable } from "stream";
+import { BigQueryORM, DryRunResult, QueryBudgetOptions } from "./bigQueryORM";
+import { ReadOnlyModelError } from "./errors";
+import { loadJsonRows } from "./executor";
 import { Op, Operator } from "./op";
-import { DataTypes, DataType } from "./dataTypes";
-import { buildWhereClause } from "./utils";
+import { PartitionOptions } from "./partitioning";
+import { MaterializedViewOptions } from "./queryInterface";
+import { AttributeDefinition, AttributeType, DataTypes } from "./dataTypes";
+import { Transaction, TransactionOptions } from "./transaction";
+import {
+  Literal,
+  SqlExpression,
+  quoteColumn,
+  renderExpression,
+} from "./expressions";
+import {
+  buildWhereClause,
+  dataTypeToParamType,
+  dataTypeToSchemaField,
+  normalizeAttribute,
+  toLoadValue,
+  toSqlLiteral,
+} from "./utils";
+import { ModelValidator, validateRows } from "./validation";
+import {
+  HookDefinitions,
+  HookFunction,
+  HookRegistry,
+  ModelHookName,
+} from "./hooks";
 
 export interface WhereOptions {
   [key: string]: any | { [key in Operator]?: any } | WhereOptions[];
@@ -14,17 +41,138 @@ export interface IncludeOptions {
   where?: WhereOptions;
   required?: boolean;
   attributes?: string[];
+  paranoid?: boolean;
+  include?: IncludeOptions[];
+  // "arrayAgg" loads hasMany/belongsToMany children into an array column of
+  // the parent row instead of joining them. `separate: true` is the same.
+  strategy?: "join" | "arrayAgg";
+  separate?: boolean;
+  order?: [string, "ASC" | "DESC"][];
+  // Children per parent; implies the arrayAgg strategy.
+  limit?: number;
 }
 
-export interface FindOptions {
-  attributes?: string[];
+export type FindAttribute = string | [string | SqlExpression, string];
+
+export type OrderItem =
+  | [string | SqlExpression, "ASC" | "DESC"]
+  | SqlExpression;
+
+export interface FindOptions extends QueryBudgetOptions {
+  attributes?: FindAttribute[];
   where?: WhereOptions;
   include?: IncludeOptions[];
-  order?: [string, "ASC" | "DESC"][];
-  group?: string[];
+  order?: OrderItem[];
+  group?: (string | SqlExpression)[];
+  having?: WhereOptions | Literal;
   limit?: number;
   offset?: number;
   raw?: boolean;
+  paranoid?: boolean;
+  transaction?: Transaction;
+  // Read the tables as they were at this time (time travel).
+  asOf?: Date | string;
+}
+
+export interface FindEachOptions extends Omit<FindOptions, "dryRun"> {
+  pageSize?: number;
+}
+
+export interface CompiledQuery {
+  sql: string;
+  params: Record<string, any>;
+  types: Record<string, any>;
+}
+
+type QueryStatistics = NonNullable<
+  NonNullable<JobMetadata["statistics"]>["query"]
+>;
+
+export interface PaginateOptions
+  extends Omit<
+    FindOptions,
+    "order" | "limit" | "offset" | "group" | "having" | "dryRun"
+  > {
+  order?: [string, "ASC" | "DESC"][];
+  first?: number;
+  after?: string;
+  before?: string;
+}
+
+export interface PageInfo {
+  startCursor: string | null;
+  endCursor: string | null;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+export interface PaginateResult {
+  rows: any[];
+  pageInfo: PageInfo;
+}
+
+export interface ExplainResult {
+  sql: string;
+  totalBytesProcessed: number;
+  totalBytesBilled: number;
+  totalSlotMs: number;
+  cacheHit: boolean;
+  queryPlan: NonNullable<QueryStatistics["queryPlan"]>;
+}
+
+export interface ModelOptions {
+  tableName?: string;
+  primaryKey?: string;
+  validate?: Record<string, ModelValidator>;
+  hooks?: HookDefinitions;
+  timestamps?: boolean;
+  paranoid?: boolean;
+  clusterBy?: string[];
+  partitionBy?: PartitionOptions;
+  requirePartitionFilter?: boolean;
+  partitionExpirationDays?: number;
+  // Back the model with a view instead of a table.
+  view?: string | ViewOptions;
+}
+
+export interface ViewOptions extends MaterializedViewOptions {
+  // SQL text, or a query on another model.
+  query: string | (FindOptions & { model: typeof Model });
+  materialized?: boolean;
+}
+
+export interface DestroyOptions extends TransactionOptions {
+  where: WhereOptions;
+  maximumBytesBilled?: number | string;
+  force?: boolean;
+}
+
+export interface BulkCreateOptions extends TransactionOptions, ValidateOptions {
+  method?: "insert" | "load";
+}
+
+export type LoadFormat = "CSV" | "NDJSON" | "AVRO" | "PARQUET";
+
+export interface ImportFileOptions {
+  format: LoadFormat;
+  writeDisposition?: "WRITE_APPEND" | "WRITE_TRUNCATE" | "WRITE_EMPTY";
+  skipLeadingRows?: number;
+}
+
+export interface UpsertOptions extends TransactionOptions {
+  conflictFields?: string[];
+  updateFields?: string[];
+  maximumBytesBilled?: number | string;
+  validate?: boolean;
+}
+
+export interface UpsertResult {
+  inserted: number;
+  updated: number;
+}
+
+export interface ValidateOptions {
+  validate?: boolean;
 }
 
 export interface Association {
@@ -36,21 +184,137 @@ export interface Association {
   through?: typeof Model;
 }
 
+interface IncludeNode {
+  options: IncludeOptions;
+  model: typeof Model;
+  association: Association;
+  // Property on the parent object, and the SQL alias unique within the query.
+  as: string;
+  alias: string;
+  toMany: boolean;
+  aggregated: boolean;
+  children: IncludeNode[];
+}
+
+interface SelectContext {
+  params: Record<string, any>;
+  paramIndex: number;
+  // FOR SYSTEM_TIME AS OF clause appended to every table reference.
+  asOf: string;
+}
+
 export abstract class Model {
   static orm: BigQueryORM;
   static tableName: string;
   static primaryKey: string = "id";
-  static attributes: Record<string, DataType>;
+  static attributes: Record<string, AttributeDefinition>;
   static associations: Record<string, Association> = {};
+  static validators: Record<string, ModelValidator> = {};
+  static hooks: HookRegistry<ModelHookName> = new HookRegistry();
+  static timestamps: boolean = false;
+  static paranoid: boolean = false;
+  static clusterBy?: string[];
+  static partitionBy?: PartitionOptions;
+  static requirePartitionFilter?: boolean;
+  static partitionExpirationDays?: number;
+  static view?: ViewOptions;
+
+  public dataValues: Record<string, any> = {};
+  public isNewRecord: boolean;
+  private previousDataValues: Record<string, any> = {};
+
+  constructor(
+    values: Record<string, any> = {},
+    options: { isNewRecord?: boolean } = {}
+  ) {
+    this.isNewRecord = options.isNewRecord ?? true;
+    for (const [key, value] of Object.entries(values)) {
+      this.dataValues[key] = value;
+      // Included associations are not declared attributes, so expose them here.
+      if (!(key in this)) {
+        Object.defineProperty(this, key, {
+          get: () => this.get(key),
+          set: (v) => this.set(key, v),
+          enumerable: true,
+          configurable: true,
+        });
+      }
+    }
+    if (!this.isNewRecord) {
+      this.previousDataValues = { ...this.dataValues };
+    }
+  }
 
   static init(
-    attributes: Record<string, DataType>,
-    options: { orm: BigQueryORM; tableName?: string; primaryKey?: string }
+    attributes: Record<string, AttributeType>,
+    options: ModelOptions & { orm: BigQueryORM }
   ) {
     this.orm = options.orm;
-    this.attributes = attributes;
+    this.timestamps = !!options.timestamps;
+    this.paranoid = !!options.paranoid;
+    this.clusterBy = options.clusterBy;
+    this.partitionBy = options.partitionBy;
+    this.requirePartitionFilter = options.requirePartitionFilter;
+    this.partitionExpirationDays = options.partitionExpirationDays;
+    this.view =
+      typeof options.view === "string" ? { query: options.view } : options.view;
+    attributes = { ...attributes };
+    if (this.timestamps) {
+      attributes.createdAt ??= DataTypes.TIMESTAMP;
+      attributes.updatedAt ??= DataTypes.TIMESTAMP;
+    }
+    if (this.paranoid) {
+      attributes.deletedAt ??= DataTypes.TIMESTAMP;
+    }
+    this.attributes = Object.fromEntries(
+      Object.entries(attributes).map(([name, attribute]) => [
+        name,
+        normalizeAttribute(attribute),
+      ])
+    );
     this.tableName = options.tableName || this.name.toLowerCase();
     this.primaryKey = options.primaryKey || "id";
+    this.validators = options.validate || {};
+    this.hooks = new HookRegistry(options.hooks);
+    for (const name of Object.keys(this.attributes)) {
+      this.defineAttributeAccessor(name);
+    }
+  }
+
+  static build<M extends typeof Model>(
+    this: M,
+    values: Record<string, any> = {},
+    options: { isNewRecord?: boolean } = {}
+  ): InstanceType<M> {
+    const isNewRecord = options.isNewRecord ?? true;
+    return new (this as any)(
+      isNewRecord ? this.applyDefaults(values) : values,
+      options
+    );
+  }
+
+  static addHook(name: ModelHookName, fn: HookFunction): void {
+    this.ownHooks().add(name, fn);
+  }
+
+  static removeHook(name: ModelHookName, fn?: HookFunction): void {
+    this.ownHooks().remove(name, fn);
+  }
+
+  static async runHooks(name: ModelHookName, ...args: any[]): Promise<void> {
+    // Global hooks run first; every hook also receives the model class.
+    await this.orm.hooks.run(name, ...args, this);
+    await this.ownHooks().run(name, ...args, this);
+  }
+
+  static async validate(
+    rows: Record<string, any> | Record<string, any>[],
+    options: { partial?: boolean } = {}
+  ): Promise<void> {
+    const rowList = Array.isArray(rows) ? rows : [rows];
+    await this.runHooks("beforeValidate", rowList, options);
+    await validateRows(this.attributes, this.validators, rowList, options);
+    await this.runHooks("afterValidate", rowList, options);
   }
 
   static belongsTo(
@@ -61,7 +325,8 @@ export abstract class Model {
     const as = options.as || target.name.toLowerCase();
     this.associations[as] = { type: "belongsTo", target, foreignKey, as };
     if (!this.attributes[foreignKey]) {
-      this.attributes[foreignKey] = DataTypes.INTEGER;
+      this.attributes[foreignKey] = { type: DataTypes.INTEGER };
+      this.defineAttributeAccessor(foreignKey);
     }
   }
 
@@ -105,21 +370,170 @@ export abstract class Model {
     };
   }
 
-  static async findAll(options: FindOptions = {}): Promise<any[]> {
-    const { sql, params } = this.buildSelectQuery(options);
+  static findAll(
+    options: FindOptions & { dryRun: true }
+  ): Promise<DryRunResult>;
+  static findAll(options?: FindOptions): Promise<any[]>;
+  static async findAll(options: FindOptions = {}): Promise<any> {
+    options = { ...options };
+    await this.runHooks("beforeFind", options);
+    const query = this.toQueryRequest(
+      this.buildSelectQuery(options),
+      options.transaction
+    );
+    if (options.dryRun) return this.orm.dryRun(query);
     try {
-      const [rows] = await this.orm.bigquery.query({ query: sql, params });
-      if (options.raw) {
-        return rows;
-      }
-      return this.nestAssociations(rows, options.include || []);
+      const { rows } = await this.orm.executor.query(
+        await this.orm.applyByteBudget(query, options.maximumBytesBilled)
+      );
+      const results = options.raw
+        ? rows
+        : this.nestAssociations(rows, options.include || []).map((row) =>
+            this.instantiate(row, options.include || [])
+          );
+      await this.runHooks("afterFind", results, options);
+      return results;
     } catch (err: any) {
       console.error("FindAll query failed:", err.message);
       throw err;
     }
   }
 
-  static async findOne(options: FindOptions = {}): Promise<any | null> {
+  static async *findEach(options: FindEachOptions = {}): AsyncGenerator<any> {
+    options = { ...options };
+    await this.runHooks("beforeFind", options);
+    const include = options.include || [];
+    // Keep each parent's joined rows contiguous so pages can be nested one at a time.
+    if (
+      !options.raw &&
+      include.length &&
+      !(options.order || []).some(
+        (item) => Array.isArray(item) && item[0] === this.primaryKey
+      )
+    ) {
+      options.order = [...(options.order || []), [this.primaryKey, "ASC"]];
+    }
+    const parentKey = `${this.tableName}_${this.primaryKey}`;
+    let pending: any[] = [];
+    // afterFind runs once per page, on the rows about to be yielded.
+    const finish = async (rows: any[]) => {
+      const results = options.raw
+        ? rows
+        : this.nestAssociations(rows, include).map((row) =>
+            this.instantiate(row, include)
+          );
+      await this.runHooks("afterFind", results, options);
+      return results;
+    };
+    try {
+      const query = await this.orm.applyByteBudget(
+        this.toQueryRequest(
+          this.buildSelectQuery(options),
+          options.transaction
+        ),
+        options.maximumBytesBilled
+      );
+      for await (const page of this.orm.executor.queryPages(
+        query,
+        options.pageSize
+      )) {
+        if (options.raw) {
+          yield* await finish(page);
+          continue;
+        }
+        pending.push(...page);
+        let ready = pending.length;
+        if (include.length && pending.length) {
+          // The last parent's children may continue on the next page.
+          const lastKey = pending[pending.length - 1][parentKey];
+          while (ready > 0 && pending[ready - 1][parentKey] === lastKey)
+            ready--;
+        }
+        if (ready) yield* await finish(pending.splice(0, ready));
+      }
+      if (pending.length) yield* await finish(pending);
+    } catch (err: any) {
+      console.error("FindEach query failed:", err.message);
+      throw err;
+    }
+  }
+
+  static findAllStream(options: FindEachOptions = {}): Readable {
+    return Readable.from(this.findEach(options));
+  }
+
+  static async paginate(
+    options: PaginateOptions = {}
+  ): Promise<PaginateResult> {
+    const { first = 20, after, before, ...findOptions } = options;
+    if (after !== undefined && before !== undefined) {
+      throw new Error("Pass either after or before to paginate, not both");
+    }
+    // The primary key breaks ties so every row has a unique position.
+    const order = [...(options.order || [])];
+    if (!order.some(([column]) => column === this.primaryKey)) {
+      order.push([this.primaryKey, "ASC"]);
+    }
+    for (const [column] of order) {
+      if (!(column in this.attributes)) {
+        throw new Error(
+          `Cannot paginate ${this.name} by ${column}: not an attribute`
+        );
+      }
+    }
+    const backward = before !== undefined;
+    const queryOrder: [string, "ASC" | "DESC"][] = backward
+      ? order.map(([column, dir]) => [column, dir === "DESC" ? "ASC" : "DESC"])
+      : order;
+    const cursor = backward ? before : after;
+    const where = cursor
+      ? {
+          [Op.and]: [
+            options.where || {},
+            this.keysetWhere(queryOrder, this.decodeCursor(cursor, order)),
+          ],
+        }
+      : options.where;
+    const attributes = options.attributes && [
+      ...options.attributes,
+      ...order
+        .map(([column]) => column)
+        .filter((column) => !options.attributes!.includes(column)),
+    ];
+
+    const rows = await this.findAll({
+      ...findOptions,
+      attributes,
+      where,
+      order: queryOrder,
+      limit: first + 1,
+    });
+    const hasMore = rows.length > first;
+    const page = rows.slice(0, first);
+    if (backward) page.reverse();
+    const cursorOf = (row: any) =>
+      this.encodeCursor(
+        order.map(([column]) =>
+          options.raw ? row[`${this.tableName}_${column}`] : row.get(column)
+        ),
+        order
+      );
+    return {
+      rows: page,
+      pageInfo: {
+        startCursor: page.length ? cursorOf(page[0]) : null,
+        endCursor: page.length ? cursorOf(page[page.length - 1]) : null,
+        // The row a cursor was taken from lies on the side it points back to,
+        // so those flags are true without querying that side.
+        hasNextPage: backward ? true : hasMore,
+        hasPreviousPage: backward ? hasMore : after !== undefined,
+      },
+    };
+  }
+
+  static async findOne(
+    options: Omit<FindOptions, "dryRun"> = {}
+  ): Promise<any | null> {
     try {
       const results = await this.findAll({ ...options, limit: 1 });
       return results[0] || null;
@@ -131,16 +545,25 @@ export abstract class Model {
 
   static async findByPk(
     pk: any,
-    options: FindOptions = {}
+    options: Omit<FindOptions, "dryRun"> = {}
   ): Promise<any | null> {
     return this.findOne({ ...options, where: { [this.primaryKey]: pk } });
   }
 
-  static async count(options: FindOptions = {}): Promise<number> {
-    const select = `COUNT(DISTINCT \`${this.tableName}\`.\`${this.primaryKey}\`) AS count`;
-    const { sql, params } = this.buildSelectQuery(options, select);
+  static count(options: FindOptions & { dryRun: true }): Promise<DryRunResult>;
+  static count(options?: FindOptions): Promise<number>;
+  static async count(options: FindOptions = {}): Promise<any> {
+    options = { ...options };
+    await this.runHooks("beforeFind", options);
+    const query = this.toQueryRequest(
+      this.buildCountQuery(options),
+      options.transaction
+    );
+    if (options.dryRun) return this.orm.dryRun(query);
     try {
-      const [rows] = await this.orm.bigquery.query({ query: sql, params });
+      const { rows } = await this.orm.executor.query(
+        await this.orm.applyByteBudget(query, options.maximumBytesBilled)
+      );
       return rows[0]?.count || 0;
     } catch (err: any) {
       console.error("Count query failed:", err.message);
@@ -148,20 +571,129 @@ export abstract class Model {
     }
   }
 
-  static async create(data: Record<string, any>): Promise<any> {
+  static async sum(
+    field: string,
+    options: Omit<FindOptions, "dryRun"> = {}
+  ): Promise<number> {
+    return Number((await this.aggregate("SUM", field, options)) || 0);
+  }
+
+  static async min(
+    field: string,
+    options: Omit<FindOptions, "dryRun"> = {}
+  ): Promise<any> {
+    return this.aggregate("MIN", field, options);
+  }
+
+  static async max(
+    field: string,
+    options: Omit<FindOptions, "dryRun"> = {}
+  ): Promise<any> {
+    return this.aggregate("MAX", field, options);
+  }
+
+  static async avg(
+    field: string,
+    options: Omit<FindOptions, "dryRun"> = {}
+  ): Promise<number | null> {
+    const result = await this.aggregate("AVG", field, options);
+    return result == null ? null : Number(result);
+  }
+
+  static toSQL(kind: "select" | "count", options?: FindOptions): CompiledQuery;
+  // "view" compiles a query for CREATE VIEW, with parameters inlined and the
+  // model's columns under their own names.
+  static toSQL(kind: "view", options?: FindOptions): CompiledQuery;
+  static toSQL(
+    kind: "update",
+    options: {
+      values: Record<string, any>;
+      where?: WhereOptions;
+      paranoid?: boolean;
+    }
+  ): CompiledQuery;
+  static toSQL(
+    kind: "delete",
+    options?: { where?: WhereOptions; force?: boolean }
+  ): CompiledQuery;
+  static toSQL(
+    kind: "select" | "count" | "view" | "update" | "delete",
+    options: any = {}
+  ): CompiledQuery {
+    switch (kind) {
+      case "select":
+        return this.buildSelectQuery(options);
+      case "count":
+        return this.buildCountQuery(options);
+      case "view":
+        return { sql: this.buildViewQuery(options), params: {}, types: {} };
+      case "update":
+        return this.buildUpdateQuery(
+          options.values,
+          options.where,
+          options.paranoid
+        );
+      case "delete":
+        return this.buildDestroyQuery(options.where, options.force);
+      default:
+        throw new Error(`Unsupported SQL kind: ${kind}`);
+    }
+  }
+
+  static async explain(options: FindOptions = {}): Promise<ExplainResult> {
+    const compiled = this.buildSelectQuery(options);
+    // Cached results carry no query plan, so always run the query.
+    const query = {
+      ...this.toQueryRequest(compiled, options.transaction),
+      useQueryCache: false,
+    };
+    try {
+      const { metadata } = await this.orm.executor.query(
+        await this.orm.applyByteBudget(query, options.maximumBytesBilled)
+      );
+      const stats = metadata.statistics?.query || {};
+      return {
+        sql: compiled.sql,
+        totalBytesProcessed: Number(stats.totalBytesProcessed || 0),
+        totalBytesBilled: Number(stats.totalBytesBilled || 0),
+        totalSlotMs: Number(stats.totalSlotMs || 0),
+        cacheHit: !!stats.cacheHit,
+        queryPlan: stats.queryPlan || [],
+      };
+    } catch (err: any) {
+      console.error("Explain query failed:", err.message);
+      throw err;
+    }
+  }
+
+  static async create(
+    data: Record<string, any>,
+    options: TransactionOptions & ValidateOptions & { raw?: boolean } = {}
+  ): Promise<any> {
+    this.assertWritable("create");
     if (this.orm.config.freeTierMode) {
       throw new Error(
         "Free tier mode: CREATE (INSERT) not allowed. Enable billing at https://console.cloud.google.com/billing."
       );
     }
-    const table = this.orm.bigquery
-      .dataset(this.orm.config.dataset)
-      .table(this.tableName);
+    options = { ...options };
+    data = this.applyTimestamps(this.applyDefaults(data));
+    await this.runHooks("beforeCreate", data, options);
+    if (options.validate !== false) await this.validate(data);
     try {
-      await table.insert([data]);
+      if (options.transaction) {
+        // Streaming inserts bypass sessions, so use DML inside a transaction.
+        await this.runDml(this.buildInsertQuery([data]), options);
+      } else {
+        await this.orm.executor.insert(this.tableName, [data]);
+      }
       if (this.orm.config.logging)
         console.log(`Created record in ${this.tableName}`);
-      return data;
+      const result = options.raw
+        ? data
+        : this.build(data, { isNewRecord: false });
+      await this.runHooks("afterCreate", result, options);
+      return result;
     } catch (err: any) {
       console.error(
         `Failed to create record in ${this.tableName}:`,
@@ -171,20 +703,38 @@ export abstract class Model {
     }
   }
 
-  static async bulkCreate(data: Record<string, any>[]): Promise<void> {
-    if (this.orm.config.freeTierMode) {
+  static async bulkCreate(
+    data: Record<string, any>[],
+    options: BulkCreateOptions = {}
+  ): Promise<void> {
+    this.assertWritable("bulkCreate");
+    // Load jobs are free and allowed in the sandbox, unlike streaming inserts.
+    if (this.orm.config.freeTierMode && options.method !== "load") {
       throw new Error(
         "Free tier mode: BULK CREATE (INSERT) not allowed. Enable billing at https://console.cloud.google.com/billing."
       );
     }
+    if (options.method === "load" && options.transaction) {
+      throw new Error(
+        "Load jobs cannot run inside a transaction; use the default insert method."
+      );
+    }
     if (data.length === 0) return;
-    const table = this.orm.bigquery
-      .dataset(this.orm.config.dataset)
-      .table(this.tableName);
+    options = { ...options };
+    data = data.map((row) => this.applyTimestamps(this.applyDefaults(row)));
+    await this.runHooks("beforeBulkCreate", data, options);
+    if (options.validate !== false) await this.validate(data);
     try {
-      await table.insert(data);
+      if (options.method === "load") {
+        await this.loadRows(data);
+      } else if (options.transaction) {
+        await this.runDml(this.buildInsertQuery(data), options);
+      } else {
+        await this.orm.executor.insert(this.tableName, data);
+      }
       if (this.orm.config.logging)
         console.log(`Bulk created ${data.length} records in ${this.tableName}`);
+      await this.runHooks("afterBulkCreate", data, options);
     } catch (err: any) {
       console.error(
         `Failed to bulk create records in ${this.tableName}:`,
@@ -194,53 +744,162 @@ export abstract class Model {
     }
   }
 
+  static async importFile(
+    filePath: string,
+    options: ImportFileOptions
+  ): Promise<number> {
+    this.assertWritable("importFile");
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    const metadata: JobLoadMetadata = {
+      sourceFormat:
+        options.format === "NDJSON" ? "NEWLINE_DELIMITED_JSON" : options.format,
+      writeDisposition: options.writeDisposition || "WRITE_APPEND",
+    };
+    // Avro and Parquet files carry their own schema.
+    if (options.format === "CSV" || options.format === "NDJSON") {
+      metadata.schema = { fields: this.schemaFields() };
+    }
+    if (options.skipLeadingRows !== undefined) {
+      metadata.skipLeadingRows = options.skipLeadingRows;
+    }
+    try {
+      const jobMetadata = await this.orm.executor.load(
+        this.tableName,
+        filePath,
+        metadata
+      );
+      const outputRows = Number(jobMetadata.statistics?.load?.outputRows || 0);
+      if (this.orm.config.logging)
+        console.log(
+          `Loaded ${outputRows} rows from ${filePath} into ${this.tableName}`
+        );
+      return outputRows;
+    } catch (err: any) {
+      console.error(
+        `Failed to load ${filePath} into ${this.tableName}:`,
+        err.message
+      );
+      throw err;
+    }
+  }
+
+  static async upsert(
+    data: Record<string, any>,
+    options: UpsertOptions = {}
+  ): Promise<UpsertResult> {
+    this.assertWritable("upsert");
+    return this.bulkUpsert([data], options);
+  }
+
+  static async bulkUpsert(
+    data: Record<string, any>[],
+    options: UpsertOptions = {}
+  ): Promise<UpsertResult> {
+    this.assertWritable("bulkUpsert");
+    if (this.orm.config.freeTierMode) {
+      throw new Error(
+        "Free tier mode: UPSERT (MERGE) not allowed. Enable billing at https://console.cloud.google.com/billing."
+      );
+    }
+    if (data.length === 0) return { inserted: 0, updated: 0 };
+    const conflictFields = options.conflictFields || [this.primaryKey];
+    // MERGE fails when several source rows match one target row; last one wins.
+    const rowsByKey = new Map<
+      string,
+      { values: Record<string, any>; provided: Set<string> }
+    >();
+    for (const row of data) {
+      const missing = conflictFields.filter(
+        (field) => row[field] === undefined || row[field] === null
+      );
+      if (missing.length) {
+        throw new Error(
+          `Cannot upsert ${this.name} without values for ${missing.join(", ")}`
+        );
+      }
+      const key = JSON.stringify(conflictFields.map((field) => row[field]));
+      // Defaults and createdAt only reach the INSERT branch; matched rows
+      // are updated with the columns the caller gave (and updatedAt).
+      const provided = new Set(
+        Object.keys(row).filter((column) => row[column] !== undefined)
+      );
+      if (this.timestamps) provided.add("updatedAt");
+      rowsByKey.set(key, {
+        values: this.applyTimestamps(this.applyDefaults(row)),
+        provided,
+      });
+    }
+    const entries = Array.from(rowsByKey.values());
+    const rows = entries.map((entry) => entry.values);
+    if (options.validate !== false) await this.validate(rows);
+
+    const compiled = this.buildMergeQuery(
+      rows,
+      entries.map((entry) => entry.provided),
+      conflictFields,
+      options
+    );
+    if (this.orm.config.logging) console.log(`Executing: ${compiled.sql}`);
+    try {
+      const metadata = await this.executeDml(compiled, options);
+      const dmlStats = metadata.statistics?.query?.dmlStats || {};
+      const result = {
+        inserted: Number(dmlStats.insertedRowCount || 0),
+        updated: Number(dmlStats.updatedRowCount || 0),
+      };
+      if (this.orm.config.logging)
+        console.log(
+          `Upserted ${rows.length} records in ${this.tableName} (${result.inserted} inserted, ${result.updated} updated)`
+        );
+      return result;
+    } catch (err: any) {
+      console.error(
+        `Failed to upsert records in ${this.tableName}:`,
+        err.message
+      );
+      throw err;
+    }
+  }
+
   static async update(
     data: Record<string, any>,
-    options: { where: WhereOptions }
+    options: {
+      where: WhereOptions;
+      // Soft-deleted rows are skipped unless this is false.
+      paranoid?: boolean;
+      maximumBytesBilled?: number | string;
+    } & TransactionOptions &
+      ValidateOptions
   ): Promise<number> {
+    this.assertWritable("update");
     if (this.orm.config.freeTierMode) {
       throw new Error(
         "Free tier mode: UPDATE not allowed. Enable billing at https://console.cloud.google.com/billing."
       );
     }
-    console.log("update data", data);
-
-    const setClauses = Object.entries(data)
-      .map(([field]) => `\`${field}\` = @set_${field}`)
-      .join(", ");
-    const setValues = Object.entries(data).reduce(
-      (acc, [field, value]) => ({ ...acc, [`set_${field}`]: value }),
-      {}
-    );
-    const { clause: whereClause, params: whereValues } = buildWhereClause(
-      options.where
+    options = { ...options };
+    data = { ...data };
+    if (this.timestamps && data.updatedAt === undefined) {
+      data.updatedAt = new Date();
+    }
+    await this.runHooks("beforeUpdate", data, options);
+    if (options.validate !== false)
+      await this.validate(data, { partial: true });
+    const compiled = this.buildUpdateQuery(
+      data,
+      options.where,
+      options.paranoid
     );
-    const sql = `UPDATE \`${this.orm.config.dataset}.${
-      this.tableName
-    }\` SET ${setClauses} WHERE ${whereClause || "TRUE"}`;
-    const allParams = { ...setValues, ...whereValues };
-
-    console.log("update SqlQUERY", sql);
+    if (this.orm.config.logging) console.log(`Executing: ${compiled.sql}`);
 
     try {
-      // Step 1: Create the job
-      const [job] = await this.orm.bigquery.createQueryJob({
-        query: sql,
-        params: allParams,
-      });
-
-      // Step 2: Wait for the job to finish
-      await job.getQueryResults();
-
-      // Step 3: Fetch complete metadata
-      const [metadata] = await job.getMetadata();
-
-      const affectedRows = Number(
-        metadata.statistics?.query?.numDmlAffectedRows || 0
-      );
+      const affectedRows = await this.runDml(compiled, options);
 
       if (this.orm.config.logging)
         console.log(`Updated ${affectedRows} rows in ${this.tableName}`);
+      await this.runHooks("afterUpdate", affectedRows, options);
 
       return affectedRows;
     } catch (err: any) {
@@ -260,31 +919,29 @@ export abstract class Model {
     }
   }
 
-  static async destroy(options: { where: WhereOptions }): Promise<number> {
+  static async destroy(options: DestroyOptions): Promise<number> {
+    this.assertWritable("destroy");
     if (this.orm.config.freeTierMode) {
       throw new Error(
         "Free tier mode: DESTROY (DELETE) not allowed. Enable billing at https://console.cloud.google.com/billing."
       );
     }
 
-    const { clause, params } = buildWhereClause(options.where);
-    const sql = `DELETE FROM \`${this.orm.config.dataset}.${
-      this.tableName
-    }\` WHERE ${clause || "TRUE"}`;
+    options = { ...options };
+    await this.runHooks("beforeDestroy", options);
+    const compiled = this.buildDestroyQuery(options.where, options.force);
+    if (this.orm.config.logging) console.log(`Executing: ${compiled.sql}`);
 
     try {
-      const [job] = await this.orm.bigquery.createQueryJob({
-        query: sql,
-        params,
-      });
-      await job.getQueryResults();
-      const [metadata] = await job.getMetadata();
-      const affectedRows = Number(
-        metadata.statistics?.query?.numDmlAffectedRows || 0
-      );
+      const affectedRows = await this.runDml(compiled, options);
 
       if (this.orm.config.logging)
-        console.log(`Deleted ${affectedRows} rows from ${this.tableName}`);
+        console.log(
+          `${
+            this.paranoid && !options.force ? "Soft deleted" : "Deleted"
+          } ${affectedRows} rows from ${this.tableName}`
+        );
+      await this.runHooks("afterDestroy", affectedRows, options);
 
       return affectedRows;
     } catch (err: any) {
@@ -304,10 +961,57 @@ export abstract class Model {
     }
   }
 
+  static async restore(
+    options: {
+      where: WhereOptions;
+      maximumBytesBilled?: number | string;
+    } & TransactionOptions
+  ): Promise<number> {
+    this.assertWritable("restore");
+    if (!this.paranoid) {
+      throw new Error(`${this.name} is not paranoid; nothing to restore`);
+    }
+    if (this.orm.config.freeTierMode) {
+      throw new Error(
+        "Free tier mode: RESTORE (UPDATE) not allowed. Enable billing at https://console.cloud.google.com/billing."
+      );
+    }
+    const { clause, params } = buildWhereClause(options.where);
+    const setClauses = ["`deletedAt` = NULL"];
+    if (this.timestamps) setClauses.push("`updatedAt` = CURRENT_TIMESTAMP()");
+    const sql = `UPDATE \`${this.orm.config.dataset}.${
+      this.tableName
+    }\` SET ${setClauses.join(", ")} WHERE ${[clause, "`deletedAt` IS NOT NULL"]
+      .filter((c) => c)
+      .join(" AND ")}`;
+    try {
+      const affectedRows = await this.runDml(
+        { sql, params, types: {} },
+        options
+      );
+      if (this.orm.config.logging)
+        console.log(`Restored ${affectedRows} rows in ${this.tableName}`);
+      return affectedRows;
+    } catch (err: any) {
+      console.error(
+        `Failed to restore records in ${this.tableName}:`,
+        err.message
+      );
+      throw err;
+    }
+  }
+
   static async increment(
     fields: string | string[],
-    options: { by?: number; where: WhereOptions }
+    options: {
+      by?: number;
+      where: WhereOptions;
+      // Soft-deleted rows are skipped unless this is false.
+      paranoid?: boolean;
+      maximumBytesBilled?: number | string;
+    } & TransactionOptions
   ): Promise<number> {
+    this.assertWritable("increment");
     if (this.orm.config.freeTierMode) {
       throw new Error(
         "Free tier mode: INCREMENT (UPDATE) not allowed. Enable billing at https://console.cloud.google.com/billing."
@@ -315,23 +1019,26 @@ export abstract class Model {
     }
     const by = options.by || 1;
     const fieldArray = Array.isArray(fields) ? fields : [fields];
-    const setClauses = fieldArray
-      .map((field) => `\`${field}\` = \`${field}\` + ${by}`)
-      .join(", ");
+    const setClauses = fieldArray.map(
+      (field) => `\`${field}\` = \`${field}\` + ${by}`
+    );
+    if (this.timestamps) setClauses.push("`updatedAt` = CURRENT_TIMESTAMP()");
     const { clause: whereClause, params: whereValues } = buildWhereClause(
       options.where
     );
+    const conditions = [whereClause];
+    if (this.paranoid && options.paranoid !== false) {
+      conditions.push("`deletedAt` IS NULL");
+    }
     const sql = `UPDATE \`${this.orm.config.dataset}.${
       this.tableName
-    }\` SET ${setClauses} WHERE ${whereClause || "TRUE"}`;
+    }\` SET ${setClauses.join(", ")} WHERE ${
+      conditions.filter((c) => c).join(" AND ") || "TRUE"
+    }`;
     try {
-      const [, job] = (await this.orm.bigquery.query({
-        query: sql,
-        params: whereValues,
-      })) as [any, Job];
-      const [metadata] = await job.getMetadata();
-      const affectedRows = Number(
-        metadata.statistics?.query?.numDmlAffectedRows || 0
+      const affectedRows = await this.runDml(
+        { sql, params: whereValues, types: {} },
+        options
       );
       if (this.orm.config.logging)
         console.log(`Incremented ${affectedRows} rows in ${this.tableName}`);
@@ -347,114 +1054,962 @@ export abstract class Model {
 
   static async decrement(
     fields: string | string[],
-    options: { by?: number; where: WhereOptions }
+    options: {
+      by?: number;
+      where: WhereOptions;
+      // Soft-deleted rows are skipped unless this is false.
+      paranoid?: boolean;
+      maximumBytesBilled?: number | string;
+    } & TransactionOptions
   ): Promise<number> {
+    this.assertWritable("decrement");
     return this.increment(fields, { ...options, by: -(options.by || 1) });
   }
 
+  get(key?: string): any {
+    if (key === undefined) return { ...this.dataValues };
+    return this.dataValues[key];
+  }
+
+  set(key: string | Record<string, any>, value?: any): this {
+    if (typeof key === "object") {
+      for (const [k, v] of Object.entries(key)) this.set(k, v);
+      return this;
+    }
+    this.dataValues[key] = value;
+    return this;
+  }
+
+  changed(): string[];
+  changed(key: string): boolean;
+  changed(key?: string): string[] | boolean {
+    const model = this.constructor as typeof Model;
+    const changedKeys = Object.keys(model.attributes).filter(
+      (name) =>
+        name in this.dataValues &&
+        !isSameValue(this.dataValues[name], this.previousDataValues[name])
+    );
+    return key === undefined ? changedKeys : changedKeys.includes(key);
+  }
+
+  async validate(): Promise<void> {
+    const model = this.constructor as typeof Model;
+    await model.validate(this.attributeValues());
+  }
+
+  async save(
+    options: TransactionOptions &
+      ValidateOptions & { maximumBytesBilled?: number | string } = {}
+  ): Promise<this> {
+    const model = this.constructor as typeof Model;
+    if (this.isNewRecord) {
+      // create() validates after its hooks, so stamped values are checked too.
+      const created = await model.create(this.attributeValues(), {
+        ...options,
+        raw: true,
+      });
+      Object.assign(this.dataValues, created);
+      this.isNewRecord = false;
+    } else {
+      const changedKeys = this.changed();
+      if (!changedKeys.length) return this;
+      if (options.validate !== false) await this.validate();
+      const values: Record<string, any> = {};
+      for (const name of changedKeys) values[name] = this.dataValues[name];
+      if (model.timestamps && values.updatedAt === undefined) {
+        values.updatedAt = new Date();
+      }
+      // Already validated above, so validation hooks run once per save.
+      await model.update(values, {
+        ...options,
+        validate: false,
+        where: this.primaryKeyWhere(),
+      });
+      Object.assign(this.dataValues, values);
+    }
+    this.previousDataValues = { ...this.dataValues };
+    return this;
+  }
+
+  async reload(options: TransactionOptions = {}): Promise<this> {
+    const model = this.constructor as typeof Model;
+    const fresh = await model.findOne({
+      where: this.primaryKeyWhere(),
+      paranoid: false,
+      transaction: options.transaction,
+    });
+    if (!fresh) {
+      throw new Error(
+        `Instance of ${model.name} with ${model.primaryKey}=${
+          this.previousDataValues[model.primaryKey]
+        } no longer exists`
+      );
+    }
+    for (const name of Object.keys(model.attributes)) {
+      this.dataValues[name] = fresh.dataValues[name];
+    }
+    this.previousDataValues = { ...this.dataValues };
+    return this;
+  }
+
+  async destroy(options: Omit<DestroyOptions, "where"> = {}): Promise<void> {
+    const model = this.constructor as typeof Model;
+    await model.destroy({ ...options, where: this.primaryKeyWhere() });
+    if (model.paranoid && !options.force) {
+      this.dataValues.deletedAt = new Date();
+      this.previousDataValues.deletedAt = this.dataValues.deletedAt;
+    }
+  }
+
+  async restore(
+    options: TransactionOptions & { maximumBytesBilled?: number | string } = {}
+  ): Promise<void> {
+    const model = this.constructor as typeof Model;
+    await model.restore({ ...options, where: this.primaryKeyWhere() });
+    this.dataValues.deletedAt = null;
+    this.previousDataValues.deletedAt = null;
+  }
+
+  toJSON(): Record<string, any> {
+    const json: Record<string, any> = {};
+    for (const [key, value] of Object.entries(this.dataValues)) {
+      if (value instanceof Model) {
+        json[key] = value.toJSON();
+      } else if (Array.isArray(value)) {
+        json[key] = value.map((v) => (v instanceof Model ? v.toJSON() : v));
+      } else {
+        json[key] = value;
+      }
+    }
+    return json;
+  }
+
+  private attributeValues(): Record<string, any> {
+    const model = this.constructor as typeof Model;
+    const values: Record<string, any> = {};
+    for (const name of Object.keys(model.attributes)) {
+      if (this.dataValues[name] !== undefined)
+        values[name] = this.dataValues[name];
+    }
+    return values;
+  }
+
+  private primaryKeyWhere(): WhereOptions {
+    const model = this.constructor as typeof Model;
+    const pk = model.primaryKey;
+    // Key on the persisted value in case the primary key itself was changed.
+    const value =
+      pk in this.previousDataValues
+        ? this.previousDataValues[pk]
+        : this.dataValues[pk];
+    if (value === undefined || value === null) {
+      throw new Error(
+        `Cannot identify ${model.name} instance without a ${pk} value`
+      );
+    }
+    return { [pk]: value };
+  }
+
+  private static assertWritable(operation: string): void {
+    if (this.view) throw new ReadOnlyModelError(this.tableName, operation);
+  }
+
+  private static ownHooks(): HookRegistry<ModelHookName> {
+    // Subclasses that were never init'ed would otherwise share Model's registry.
+    if (!Object.prototype.hasOwnProperty.call(this, "hooks")) {
+      this.hooks = new HookRegistry();
+    }
+    return this.hooks;
+  }
+
+  private static defineAttributeAccessor(name: string) {
+    if (name in Model.prototype) return;
+    Object.defineProperty(this.prototype, name, {
+      get(this: Model) {
+        return this.get(name);
+      },
+      set(this: Model, value: any) {
+        this.set(name, value);
+      },
+      configurable: true,
+    });
+  }
+
+  private static instantiate(row: any, includes: IncludeOptions[]): any {
+    for (const inc of includes) {
+      const as = inc.as || inc.model.tableName;
+      const value = row[as];
+      if (Array.isArray(value)) {
+        row[as] = value.map((child) =>
+          inc.model.instantiate(child, inc.include || [])
+        );
+      } else if (value) {
+        row[as] = inc.model.instantiate(value, inc.include || []);
+      }
+    }
+    return this.build(row, { isNewRecord: false });
+  }
+
+  private static encodeCursor(
+    values: any[],
+    order: [string, "ASC" | "DESC"][]
+  ): string {
+    const serialized = values.map((value, i) =>
+      toLoadValue(value, this.attributes[order[i][0]].type)
+    );
+    return Buffer.from(JSON.stringify(serialized)).toString("base64url");
+  }
+
+  private static decodeCursor(
+    cursor: string,
+    order: [string, "ASC" | "DESC"][]
+  ): any[] {
+    let values: any;
+    try {
+      values = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    } catch {
+      values = null;
+    }
+    if (!Array.isArray(values) || values.length !== order.length) {
+      throw new Error(`Invalid pagination cursor for ${this.name}`);
+    }
+    return values;
+  }
+
+  private static keysetWhere(
+    order: [string, "ASC" | "DESC"][],
+    values: any[]
+  ): WhereOptions {
+    // (a > x) OR (a = x AND b > y) OR ... for the given sort directions.
+    // BigQuery sorts NULLs first ascending and last descending, and `= NULL`
+    // never matches, so NULL cursor values need IS [NOT] NULL branches.
+    const branches: WhereOptions[] = [];
+    order.forEach(([column, dir], i) => {
+      const value = values[i];
+      let after: any;
+      if (value === null) {
+        // Nothing sorts after NULL descending.
+        if (dir === "DESC") return;
+        after = { [Op.ne]: null };
+      } else if (dir === "DESC") {
+        after = { [Op.or]: [{ [Op.lt]: value }, { [Op.is]: null }] };
+      } else {
+        after = { [Op.gt]: value };
+      }
+      const clause: WhereOptions = {};
+      for (let j = 0; j < i; j++) clause[order[j][0]] = values[j];
+      clause[column] = after;
+      branches.push(clause);
+    });
+    return { [Op.or]: branches };
+  }
+
+  private static applyDefaults(data: Record<string, any>): Record<string, any> {
+    const result = { ...data };
+    for (const [name, attribute] of Object.entries(this.attributes)) {
+      const { defaultValue } = attribute;
+      // Literal defaults are SQL expressions left for BigQuery to evaluate.
+      if (
+        result[name] !== undefined ||
+        defaultValue === undefined ||
+        defaultValue instanceof Literal
+      ) {
+        continue;
+      }
+      result[name] =
+        typeof defaultValue === "function" ? defaultValue() : defaultValue;
+    }
+    return result;
+  }
+
+  private static applyTimestamps(
+    data: Record<string, any>
+  ): Record<string, any> {
+    if (!this.timestamps) return data;
+    const now = new Date();
+    return {
+      ...data,
+      createdAt: data.createdAt ?? now,
+      updatedAt: data.updatedAt ?? now,
+    };
+  }
+
+  private static schemaFields() {
+    return Object.entries(this.attributes).map(([name, attribute]) =>
+      dataTypeToSchemaField(name, attribute)
+    );
+  }
+
+  private static async loadRows(rows: Record<string, any>[]): Promise<void> {
+    await loadJsonRows(
+      this.orm.executor,
+      this.tableName,
+      rows.map((row) =>
+        Object.fromEntries(
+          Object.entries(row).map(([name, value]) => [
+            name,
+            toLoadValue(value, this.attributes[name]?.type || "JSON"),
+          ])
+        )
+      ),
+      {
+        writeDisposition: "WRITE_APPEND",
+        schema: { fields: this.schemaFields() },
+      }
+    );
+  }
+
+  private static sessionOptions(transaction?: Transaction) {
+    return transaction
+      ? { connectionProperties: transaction.connectionProperties }
+      : {};
+  }
+
+  private static async aggregate(
+    fnName: "SUM" | "MIN" | "MAX" | "AVG",
+    field: string,
+    options: Omit<FindOptions, "dryRun">
+  ): Promise<any> {
+    options = { ...options };
+    await this.runHooks("beforeFind", options);
+    const select = `${fnName}(${quoteColumn(field, this.tableName)}) AS result`;
+    const { order, limit, offset, ...rest } = options;
+    const query = this.toQueryRequest(
+      this.buildSelectQuery(rest, select),
+      options.transaction
+    );
+    try {
+      const { rows } = await this.orm.executor.query(
+        await this.orm.applyByteBudget(query, options.maximumBytesBilled)
+      );
+      return rows[0]?.result ?? null;
+    } catch (err: any) {
+      console.error(`${fnName} query failed:`, err.message);
+      throw err;
+    }
+  }
+
+  private static toQueryRequest(
+    compiled: CompiledQuery,
+    transaction?: Transaction
+  ) {
+    return {
+      query: compiled.sql,
+      params: compiled.params,
+      ...(Object.keys(compiled.types).length && { types: compiled.types }),
+      ...this.sessionOptions(transaction),
+    };
+  }
+
+  private static async runDml(
+    compiled: CompiledQuery,
+    options: TransactionOptions & { maximumBytesBilled?: number | string } = {}
+  ): Promise<number> {
+    const metadata = await this.executeDml(compiled, options);
+    return Number(metadata.statistics?.query?.numDmlAffectedRows || 0);
+  }
+
+  private static async executeDml(
+    compiled: CompiledQuery,
+    options: TransactionOptions & { maximumBytesBilled?: number | string } = {}
+  ): Promise<JobMetadata> {
+    const query = await this.orm.applyByteBudget(
+      this.toQueryRequest(compiled, options.transaction),
+      options.maximumBytesBilled
+    );
+    const { metadata } = await this.orm.executor.query(query);
+    return metadata;
+  }
+
+  private static buildInsertQuery(rows: Record<string, any>[]): CompiledQuery {
+    const columns = Array.from(
+      new Set(rows.flatMap((row) => Object.keys(row)))
+    );
+    const params: Record<string, any> = {};
+    const values = rows.map((row, rowIndex) => {
+      const placeholders = columns.map((column, columnIndex) => {
+        const value = row[column];
+        // Untyped null params are rejected by BigQuery, so inline them.
+        if (value === undefined || value === null) return "NULL";
+        const paramName = `row${rowIndex}_${columnIndex}`;
+        params[paramName] = value;
+        return `@${paramName}`;
+      });
+      return `(${placeholders.join(", ")})`;
+    });
+    const sql = `INSERT INTO \`${this.orm.config.dataset}.${
+      this.tableName
+    }\` (${columns.map((c) => `\`${c}\``).join(", ")}) VALUES ${values.join(
+      ", "
+    )}`;
+    return { sql, params, types: {} };
+  }
+
+  private static buildMergeQuery(
+    rows: Record<string, any>[],
+    provided: Set<string>[],
+    conflictFields: string[],
+    options: { updateFields?: string[] } = {}
+  ): CompiledQuery {
+    const columns = Array.from(
+      new Set(rows.flatMap((row) => Object.keys(row)))
+    );
+    const updateFields =
+      options.updateFields ||
+      columns.filter(
+        (column) =>
+          !conflictFields.includes(column) &&
+          !(this.timestamps && column === "createdAt")
+      );
+    // Columns left out of some rows keep their current value on those rows,
+    // so each row carries a flag saying whether it gave one.
+    const partial = updateFields.filter((column) =>
+      provided.some((columns) => !columns.has(column))
+    );
+    const flag = (column: string) => `__has_${column}`;
+    // Every STRUCT in the array needs the same fields, so fill gaps with null.
+    const params = {
+      upsert_rows: rows.map((row, i) => ({
+        ...Object.fromEntries(
+          columns.map((column) => [column, row[column] ?? null])
+        ),
+        ...Object.fromEntries(
+          partial.map((column) => [flag(column), provided[i].has(column)])
+        ),
+      })),
+    };
+    // Without a type for every field, null values in the STRUCTs can't bind.
+    const fieldTypes: Record<string, any> = {};
+    for (const column of columns) {
+      const attribute = this.attributes[column];
+      if (!attribute) {
+        throw new Error(
+          `Cannot upsert into ${this.tableName}: ${column} is not an attribute`
+        );
+      }
+      const type = dataTypeToParamType(attribute.type);
+      if (type === undefined) {
+        throw new Error(
+          `Cannot upsert into ${this.tableName}: the type of ${column} cannot be passed as a query parameter`
+        );
+      }
+      fieldTypes[column] = type;
+    }
+    for (const column of partial) fieldTypes[flag(column)] = "BOOL";
+    const types = { upsert_rows: [fieldTypes] };
+    const source = (column: string) => `source.\`${column}\``;
+    const target = (column: string) => `target.\`${column}\``;
+    let sql = `MERGE \`${this.orm.config.dataset}.${
+      this.tableName
+    }\` AS target USING UNNEST(@upsert_rows) AS source ON ${conflictFields
+      .map((field) => `${target(field)} = ${source(field)}`)
+      .join(" AND ")}`;
+    if (updateFields.length) {
+      sql += ` WHEN MATCHED THEN UPDATE SET ${updateFields
+        .map(
+          (field) =>
+            `\`${field}\` = ${
+              partial.includes(field)
+                ? `IF(${source(flag(field))}, ${source(field)}, ${target(
+                    field
+                  )})`
+                : source(field)
+            }`
+        )
+        .join(", ")}`;
+    }
+    sql += ` WHEN NOT MATCHED THEN INSERT (${columns
+      .map((column) => `\`${column}\``)
+      .join(", ")}) VALUES (${columns.map(source).join(", ")})`;
+    return { sql, params, types };
+  }
+
+  private static buildViewQuery(options: FindOptions): string {
+    const { sql, params } = this.buildSelectQuery(options);
+    // Views cannot take query parameters.
+    const inlined = sql.replace(/@(param\d+)\b/g, (match, name) =>
+      name in params ? toSqlLiteral(params[name]) : match
+    );
+    const columns = (options.attributes || Object.keys(this.attributes)).map(
+      (attr) => (Array.isArray(attr) ? attr[1] : attr)
+    );
+    const select = columns.map(
+      (name) => `\`${this.tableName}_${name}\` AS \`${name}\``
+    );
+    // Included columns keep their prefixed names.
+    if (options.include?.length) {
+      select.push(
+        `* EXCEPT (${columns
+          .map((name) => `\`${this.tableName}_${name}\``)
+          .join(", ")})`
+      );
+    }
+    return `SELECT ${select.join(", ")} FROM (${inlined})`;
+  }
+
+  private static buildCountQuery(options: FindOptions): CompiledQuery {
+    const select = `COUNT(DISTINCT \`${this.tableName}\`.\`${this.primaryKey}\`) AS count`;
+    return this.buildSelectQuery(options, select);
+  }
+
+  private static buildUpdateQuery(
+    data: Record<string, any>,
+    where?: WhereOptions,
+    paranoid?: boolean
+  ): CompiledQuery {
+    const setClauses = Object.keys(data)
+      .map((field) => `\`${field}\` = @set_${field}`)
+      .join(", ");
+    const params: Record<string, any> = {};
+    const types: Record<string, any> = {};
+    for (const [field, value] of Object.entries(data)) {
+      params[`set_${field}`] = value;
+      // Typing SET params from the schema lets null values bind.
+      const type =
+        this.attributes[field] &&
+        dataTypeToParamType(this.attributes[field].type);
+      if (type) types[`set_${field}`] = type;
+    }
+    const { clause: whereClause, params: whereValues } =
+      buildWhereClause(where);
+    const conditions = [whereClause];
+    if (this.paranoid && paranoid !== false) {
+      conditions.push("`deletedAt` IS NULL");
+    }
+    const sql = `UPDATE \`${this.orm.config.dataset}.${
+      this.tableName
+    }\` SET ${setClauses} WHERE ${
+      conditions.filter((c) => c).join(" AND ") || "TRUE"
+    }`;
+    return { sql, params: { ...params, ...whereValues }, types };
+  }
+
+  private static buildDestroyQuery(
+    where?: WhereOptions,
+    force?: boolean
+  ): CompiledQuery {
+    if (!this.paranoid || force) return this.buildDeleteQuery(where);
+    const { clause, params } = buildWhereClause(where);
+    const sql = `UPDATE \`${this.orm.config.dataset}.${
+      this.tableName
+    }\` SET \`deletedAt\` = CURRENT_TIMESTAMP() WHERE ${[
+      clause,
+      "`deletedAt` IS NULL",
+    ]
+      .filter((c) => c)
+      .join(" AND ")}`;
+    return { sql, params, types: {} };
+  }
+
+  private static buildDeleteQuery(where?: WhereOptions): CompiledQuery {
+    const { clause, params } = buildWhereClause(where);
+    const sql = `DELETE FROM \`${this.orm.config.dataset}.${
+      this.tableName
+    }\` WHERE ${clause || "TRUE"}`;
+    return { sql, params, types: {} };
+  }
+
+  private static resolveIncludes(
+    includes: IncludeOptions[],
+    parentAlias?: string,
+    insideAggregate = false
+  ): IncludeNode[] {
+    return includes.map((options) => {
+      const as = options.as || options.model.tableName;
+      const association = Object.values(this.associations).find(
+        (a) => a.as === as && a.target === options.model
+      );
+      if (!association)
+        throw new Error(`Association not found for ${options.model.name}`);
+      if (
+        association.type === "belongsToMany" &&
+        (!association.through || !association.otherKey)
+      )
+        throw new Error(
+          "Through model and otherKey required for belongsToMany"
+        );
+      const toMany =
+        association.type === "hasMany" || association.type === "belongsToMany";
+      const arrayAgg =
+        options.separate ||
+        options.strategy === "arrayAgg" ||
+        options.limit !== undefined;
+      if (arrayAgg && !toMany)
+        throw new Error(
+          `Include ${as}: the arrayAgg strategy and limit only apply to hasMany and belongsToMany associations`
+        );
+      const alias = parentAlias ? `${parentAlias}__${as}` : as;
+      const aggregated = insideAggregate || arrayAgg;
+      return {
+        options,
+        model: options.model,
+        association,
+        as,
+        alias,
+        toMany,
+        aggregated,
+        children: options.model.resolveIncludes(
+          options.include || [],
+          alias,
+          aggregated
+        ),
+      };
+    });
+  }
+
+  // FROM clause and correlation conditions for loading `node` in a subquery.
+  private static includeSource(
+    context: SelectContext,
+    node: IncludeNode,
+    parentAlias: string
+  ): { from: string; conditions: string[] } {
+    const dataset = this.orm.config.dataset;
+    const { association: assoc, model, alias } = node;
+    const target = tableSource(context, dataset, model.tableName, alias);
+    let from = target;
+    let correlation: string;
+    if (assoc.type === "belongsTo") {
+      correlation = `\`${alias}\`.\`${model.primaryKey}\` = \`${parentAlias}\`.\`${assoc.foreignKey}\``;
+    } else if (assoc.type === "hasOne" || assoc.type === "hasMany") {
+      correlation = `\`${alias}\`.\`${assoc.foreignKey}\` = \`${parentAlias}\`.\`${this.primaryKey}\``;
+    } else {
+      const throughAs = `${alias}_through`;
+      from = `${tableSource(
+        context,
+        dataset,
+        assoc.through!.tableName,
+        throughAs
+      )} INNER JOIN ${target} ON \`${throughAs}\`.\`${
+        assoc.otherKey
+      }\` = \`${alias}\`.\`${model.primaryKey}\``;
+      correlation = `\`${throughAs}\`.\`${assoc.foreignKey}\` = \`${parentAlias}\`.\`${this.primaryKey}\``;
+    }
+    const conditions = [correlation];
+    if (node.options.where) {
+      const clause = compileWhere(context, node.options.where, alias);
+      if (clause) conditions.push(clause);
+    }
+    if (model.paranoid && node.options.paranoid !== false) {
+      conditions.push(`\`${alias}\`.\`deletedAt\` IS NULL`);
+    }
+    return { from, conditions };
+  }
+
+  private static existsClause(
+    context: SelectContext,
+    node: IncludeNode,
+    parentAlias: string
+  ): string {
+    const { from, conditions } = this.includeSource(context, node, parentAlias);
+    for (const child of node.children) {
+      if (filtersParent(child))
+        conditions.push(node.model.existsClause(context, child, node.alias));
+    }
+    return `EXISTS (SELECT 1 FROM ${from} WHERE ${conditions.join(" AND ")})`;
+  }
+
+  // A correlated subquery returning the children as ARRAY<STRUCT> (or, for
+  // to-one associations nested in an aggregated include, a single STRUCT).
+  private static aggregateSubquery(
+    context: SelectContext,
+    node: IncludeNode,
+    parentAlias: string
+  ): string {
+    const { model, alias, children } = node;
+    const { from, conditions } = this.includeSource(context, node, parentAlias);
+    for (const child of children) {
+      if (child.options.required)
+        conditions.push(model.existsClause(context, child, alias));
+    }
+    const where = `WHERE ${conditions.join(" AND ")}`;
+    const fields = (
+      node.options.attributes || Object.keys(model.attributes)
+    ).map((field) => `\`${alias}\`.\`${field}\` AS \`${field}\``);
+    const nested = children.map(
+      (child) =>
+        `${model.aggregateSubquery(context, child, alias)} AS \`${child.as}\``
+    );
+    if (!node.toMany) {
+      return `(SELECT AS STRUCT ${[...fields, ...nested].join(
+        ", "
+      )} FROM ${from} ${where} LIMIT 1)`;
+    }
+
+    let aggregate = `STRUCT(${[
+      ...fields,
+      ...children.map(
+        (child) => `\`${alias}\`.\`${child.as}\` AS \`${child.as}\``
+      ),
+    ].join(", ")})`;
+    if (node.options.order?.length) {
+      aggregate += ` ORDER BY ${node.options.order
+        .map(([column, dir]) => `${quoteColumn(column, alias)} ${dir}`)
+        .join(", ")}`;
+    }
+    if (node.options.limit !== undefined) {
+      aggregate += ` LIMIT ${node.options.limit}`;
+    }
+    // Grandchildren are collected per child row before aggregating.
+    const source = nested.length
+      ? `(SELECT \`${alias}\`.*, ${nested.join(
+          ", "
+        )} FROM ${from} ${where}) AS \`${alias}\``
+      : `${from} ${where}`;
+    return `(SELECT ARRAY_AGG(${aggregate}) FROM ${source})`;
+  }
+
   private static buildSelectQuery(
     options: FindOptions,
     selectOverride?: string
-  ): { sql: string; params: Record<string, any> } {
+  ): CompiledQuery {
     const dataset = this.orm.config.dataset;
     const mainAlias = this.tableName;
-    let sql = `FROM \`${dataset}.${this.tableName}\` AS \`${mainAlias}\``;
-    const params: Record<string, any> = {};
+    const context: SelectContext = { params: {}, paramIndex: 0, asOf: "" };
+    const params = context.params;
+    if (options.asOf !== undefined) {
+      const paramName = `param${context.paramIndex++}`;
+      params[paramName] = options.asOf;
+      // String params are typed STRING, so convert them explicitly.
+      context.asOf = ` FOR SYSTEM_TIME AS OF ${
+        typeof options.asOf === "string"
+          ? `TIMESTAMP(@${paramName})`
+          : `@${paramName}`
+      }`;
+    }
+    const nodes = this.resolveIncludes(options.include || []);
+    const joins: string[] = [];
     const whereClauses: string[] = [];
+    const parentFilters: string[] = [];
+    const includeOrder: string[] = [];
 
-    if (options.include) {
-      for (const inc of options.include) {
-        const as = inc.as || inc.model.tableName;
-        const assoc = Object.values(this.associations).find(
-          (a) => a.as === as && a.target === inc.model
-        );
-        if (!assoc)
-          throw new Error(`Association not found for ${inc.model.name}`);
-        const joinType = inc.required ? "INNER JOIN" : "LEFT OUTER JOIN";
-        let joinOn: string;
+    // Joined to-many includes repeat the parent row, so limit the parents in
+    // a subquery first.
+    const joinsToMany = (list: IncludeNode[]): boolean =>
+      list.some((n) => !n.aggregated && (n.toMany || joinsToMany(n.children)));
+    const aliasNames = new Set(
+      (options.attributes || []).flatMap((attr) =>
+        Array.isArray(attr) ? [attr[1]] : []
+      )
+    );
+    const limitParents =
+      !selectOverride &&
+      !options.group &&
+      !!(options.limit || options.offset) &&
+      joinsToMany(nodes) &&
+      !(options.order || []).some(
+        (item) =>
+          Array.isArray(item) &&
+          typeof item[0] === "string" &&
+          aliasNames.has(item[0])
+      );
+
+    const addJoins = (
+      parent: typeof Model,
+      parentAlias: string,
+      children: IncludeNode[],
+      topLevel: boolean
+    ) => {
+      for (const node of children) {
+        if (node.aggregated) {
+          if (node.options.required) {
+            (topLevel ? parentFilters : whereClauses).push(
+              parent.existsClause(context, node, parentAlias)
+            );
+          }
+          continue;
+        }
+        const { association: assoc, model, alias } = node;
+        const joinType = node.options.required
+          ? "INNER JOIN"
+          : "LEFT OUTER JOIN";
+        // Filter soft-deleted rows in the join so outer joins keep the parent.
+        const notDeleted =
+          model.paranoid && node.options.paranoid !== false
+            ? ` AND \`${alias}\`.\`deletedAt\` IS NULL`
+            : "";
+        const target = tableSource(context, dataset, model.tableName, alias);
         if (assoc.type === "belongsTo") {
-          joinOn = `\`${mainAlias}\`.\`${assoc.foreignKey}\` = \`${as}\`.\`${inc.model.primaryKey}\``;
-          sql += ` ${joinType} \`${dataset}.${inc.model.tableName}\` AS \`${as}\` ON ${joinOn}`;
+          joins.push(
+            `${joinType} ${target} ON \`${parentAlias}\`.\`${assoc.foreignKey}\` = \`${alias}\`.\`${model.primaryKey}\`${notDeleted}`
+          );
         } else if (assoc.type === "hasOne" || assoc.type === "hasMany") {
-          joinOn = `\`${mainAlias}\`.\`${this.primaryKey}\` = \`${as}\`.\`${assoc.foreignKey}\``;
-          sql += ` ${joinType} \`${dataset}.${inc.model.tableName}\` AS \`${as}\` ON ${joinOn}`;
-        } else if (assoc.type === "belongsToMany") {
-          if (!assoc.through || !assoc.otherKey)
-            throw new Error(
-              "Through model and otherKey required for belongsToMany"
-            );
-          const throughAs = `${as}_through`;
-          const throughTable = assoc.through.tableName;
-          sql += ` ${joinType} \`${dataset}.${throughTable}\` AS \`${throughAs}\` ON \`${mainAlias}\`.\`${this.primaryKey}\` = \`${throughAs}\`.\`${assoc.foreignKey}\``;
-          joinOn = `\`${throughAs}\`.\`${assoc.otherKey}\` = \`${as}\`.\`${inc.model.primaryKey}\``;
-          sql += ` ${joinType} \`${dataset}.${inc.model.tableName}\` AS \`${as}\` ON ${joinOn}`;
+          joins.push(
+            `${joinType} ${target} ON \`${parentAlias}\`.\`${parent.primaryKey}\` = \`${alias}\`.\`${assoc.foreignKey}\`${notDeleted}`
+          );
+        } else {
+          const throughAs = `${alias}_through`;
+          joins.push(
+            `${joinType} ${tableSource(
+              context,
+              dataset,
+              assoc.through!.tableName,
+              throughAs
+            )} ON \`${parentAlias}\`.\`${
+              parent.primaryKey
+            }\` = \`${throughAs}\`.\`${assoc.foreignKey}\``,
+            `${joinType} ${target} ON \`${throughAs}\`.\`${assoc.otherKey}\` = \`${alias}\`.\`${model.primaryKey}\`${notDeleted}`
+          );
         }
 
-        if (inc.where) {
-          const { clause, params: incParams } = buildWhereClause(inc.where);
-          const prefixedClause = clause.replace(/`([^`]+)`/g, `\`${as}\`.$1`);
-          whereClauses.push(prefixedClause);
-          Object.assign(params, incParams);
+        if (node.options.where) {
+          whereClauses.push(compileWhere(context, node.options.where, alias));
         }
+        for (const [column, dir] of node.options.order || []) {
+          includeOrder.push(`${quoteColumn(column, alias)} ${dir}`);
+        }
+        if (limitParents && topLevel && filtersParent(node)) {
+          parentFilters.push(parent.existsClause(context, node, parentAlias));
+        }
+        addJoins(model, alias, node.children, false);
       }
-    }
+    };
+    addJoins(this, mainAlias, nodes, true);
 
-    let mainWhere = "";
-    if (options.where) {
-      const { clause, params: mParams } = buildWhereClause(options.where);
-      mainWhere = clause;
-      Object.assign(params, mParams);
-    }
+    const mainWhere = options.where
+      ? compileWhere(context, options.where, mainAlias)
+      : "";
+    const notDeleted =
+      this.paranoid && options.paranoid !== false
+        ? `\`${mainAlias}\`.\`deletedAt\` IS NULL`
+        : "";
 
-    let whereClause = [mainWhere, ...whereClauses]
-      .filter((c) => c)
-      .join(" AND ");
-    if (whereClause) {
-      sql += ` WHERE ${whereClause}`;
-    }
+    const bind = (value: any) => {
+      const paramName = `param${context.paramIndex++}`;
+      params[paramName] = value;
+      return `@${paramName}`;
+    };
+    const qualify = (name: string) => quoteColumn(name, mainAlias);
+    const outputAliases = new Set<string>();
+    // Names given as attribute aliases refer to the selected expression.
+    const resolveOutput = (name: string) =>
+      outputAliases.has(name) ? `\`${mainAlias}_${name}\`` : qualify(name);
 
     let selectClause: string[] = [];
     if (selectOverride) {
       selectClause.push(selectOverride);
     } else {
       const mainAttributes = options.attributes || Object.keys(this.attributes);
-      for (const field of mainAttributes) {
-        selectClause.push(
-          `\`${mainAlias}\`.\`${field}\` AS \`${mainAlias}_${field}\``
-        );
+      for (const attr of mainAttributes) {
+        if (Array.isArray(attr)) {
+          const [expr, name] = attr;
+          const rendered =
+            typeof expr === "string"
+              ? qualify(expr)
+              : renderExpression(expr, qualify, bind);
+          outputAliases.add(name);
+          selectClause.push(`${rendered} AS \`${mainAlias}_${name}\``);
+        } else {
+          selectClause.push(`${qualify(attr)} AS \`${mainAlias}_${attr}\``);
+        }
       }
-      if (options.include) {
-        for (const inc of options.include) {
-          const as = inc.as || inc.model.tableName;
+      const addColumns = (
+        parent: typeof Model,
+        parentAlias: string,
+        children: IncludeNode[]
+      ) => {
+        for (const node of children) {
+          if (node.aggregated) {
+            selectClause.push(
+              `${parent.aggregateSubquery(context, node, parentAlias)} AS \`${
+                node.alias
+              }\``
+            );
+            continue;
+          }
           const incAttributes =
-            inc.attributes || Object.keys(inc.model.attributes);
+            node.options.attributes || Object.keys(node.model.attributes);
           for (const field of incAttributes) {
-            selectClause.push(`\`${as}\`.\`${field}\` AS \`${as}_${field}\``);
+            selectClause.push(
+              `\`${node.alias}\`.\`${field}\` AS \`${node.alias}_${field}\``
+            );
           }
+          addColumns(node.model, node.alias, node.children);
         }
-      }
+      };
+      addColumns(this, mainAlias, nodes);
     }
 
-    sql = `SELECT ${selectClause.join(", ")} ${sql}`;
-
+    let groupBy = "";
     if (options.group) {
-      sql += ` GROUP BY ${options.group.map((g) => `\`${g}\``).join(", ")}`;
+      groupBy = ` GROUP BY ${options.group
+        .map((g) =>
+          typeof g === "string"
+            ? resolveOutput(g)
+            : renderExpression(g, qualify, bind)
+        )
+        .join(", ")}`;
     }
 
-    if (options.order) {
-      sql += ` ORDER BY ${options.order
-        .map(([field, dir]) => `\`${field}\` ${dir}`)
-        .join(", ")}`;
+    let having = "";
+    if (options.having) {
+      if (options.having instanceof Literal) {
+        having = ` HAVING ${options.having.sql}`;
+      } else {
+        const {
+          clause,
+          params: hParams,
+          nextIndex,
+        } = buildWhereClause(
+          options.having,
+          {},
+          context.paramIndex,
+          resolveOutput
+        );
+        if (clause) having = ` HAVING ${clause}`;
+        Object.assign(params, hParams);
+        context.paramIndex = nextIndex;
+      }
     }
 
+    const order = (options.order || []).map((item) => {
+      if (!Array.isArray(item)) {
+        return renderExpression(item, qualify, bind);
+      }
+      const [field, dir] = item;
+      const target =
+        typeof field === "string"
+          ? resolveOutput(field)
+          : renderExpression(field, qualify, bind);
+      return `${target} ${dir}`;
+    });
+    let limit = "";
     if (options.limit) {
-      sql += ` LIMIT ${options.limit}`;
+      limit += ` LIMIT ${options.limit}`;
     }
     if (options.offset) {
-      sql += ` OFFSET ${options.offset}`;
+      limit += ` OFFSET ${options.offset}`;
     }
 
-    return { sql, params };
+    const where = (clauses: string[]) => {
+      const clause = clauses.filter((c) => c).join(" AND ");
+      return clause ? ` WHERE ${clause}` : "";
+    };
+    let from = tableSource(context, dataset, this.tableName, mainAlias);
+    let sql: string;
+    if (limitParents) {
+      const parentOrder = order.length ? ` ORDER BY ${order.join(", ")}` : "";
+      from = `(SELECT * FROM ${from}${where([
+        mainWhere,
+        ...parentFilters,
+        notDeleted,
+      ])}${parentOrder}${limit}) AS \`${mainAlias}\``;
+      sql = `FROM ${[from, ...joins].join(" ")}${where(whereClauses)}`;
+      limit = "";
+    } else {
+      sql = `FROM ${[from, ...joins].join(" ")}${where([
+        mainWhere,
+        ...whereClauses,
+        ...parentFilters,
+        notDeleted,
+      ])}`;
+    }
+    sql = `SELECT ${selectClause.join(", ")} ${sql}${groupBy}${having}`;
+    if (order.length || includeOrder.length) {
+      sql += ` ORDER BY ${[...order, ...includeOrder].join(", ")}`;
+    }
+    sql += limit;
+
+    return { sql, params, types: {} };
   }
 
   private static nestAssociations(
@@ -473,58 +2028,118 @@ export abstract class Model {
       });
     }
 
+    const nodes = this.resolveIncludes(includes);
     const parentMap = new Map<any, any>();
+    // Children already collected per object, keyed by alias and primary key.
+    const seen = new Map<any, Map<string, any>>();
+    const merge = (target: any, row: any, children: IncludeNode[]) => {
+      for (const node of children) {
+        if (node.aggregated) {
+          target[node.as] = readAggregated(row[node.alias], node);
+          continue;
+        }
+        const childPK = row[`${node.alias}_${node.model.primaryKey}`];
+        if (childPK == null) continue;
+
+        let child: any;
+        if (node.toMany) {
+          const key = `${node.alias}:${String(childPK)}`;
+          if (!seen.has(target)) seen.set(target, new Map());
+          const collected = seen.get(target)!;
+          child = collected.get(key);
+          if (!child) {
+            child = readJoined(row, node);
+            collected.set(key, child);
+            target[node.as].push(child);
+          }
+        } else {
+          child = target[node.as] || (target[node.as] = readJoined(row, node));
+        }
+        merge(child, row, node.children);
+      }
+    };
+
     for (const row of rows) {
       const parentPKValue = row[`${this.tableName}_${this.primaryKey}`];
       if (parentPKValue == null) continue;
 
       let parent = parentMap.get(parentPKValue);
       if (!parent) {
-        parent = {};
+        parent = emptyAssociations(nodes);
         for (const field in this.attributes) {
           parent[field] = row[`${this.tableName}_${field}`];
         }
-        for (const inc of includes) {
-          const as = inc.as || inc.model.tableName;
-          const assoc = Object.values(this.associations).find(
-            (a) => a.as === as
-          );
-          if (assoc) {
-            if (assoc.type === "hasMany" || assoc.type === "belongsToMany") {
-              parent[as] = [];
-            } else {
-              parent[as] = null;
-            }
-          }
-        }
         parentMap.set(parentPKValue, parent);
       }
+      merge(parent, row, nodes);
+    }
 
-      for (const inc of includes) {
-        const as = inc.as || inc.model.tableName;
-        const assoc = Object.values(this.associations).find((a) => a.as === as);
-        if (!assoc) continue;
+    return Array.from(parentMap.values());
+  }
+}
 
-        const childPK = row[`${as}_${inc.model.primaryKey}`];
-        if (childPK == null) continue;
+function compileWhere(
+  context: SelectContext,
+  where: WhereOptions,
+  alias: string
+): string {
+  const { clause, params, nextIndex } = buildWhereClause(
+    where,
+    {},
+    context.paramIndex,
+    alias
+  );
+  Object.assign(context.params, params);
+  context.paramIndex = nextIndex;
+  return clause;
+}
 
-        const child: any = {};
-        for (const field in inc.model.attributes) {
-          child[field] = row[`${as}_${field}`];
-        }
+function tableSource(
+  context: SelectContext,
+  dataset: string,
+  tableName: string,
+  alias: string
+): string {
+  return `\`${dataset}.${tableName}\` AS \`${alias}\`${context.asOf}`;
+}
 
-        if (assoc.type === "hasMany" || assoc.type === "belongsToMany") {
-          if (
-            !parent[as].some((c: any) => c[inc.model.primaryKey] === childPK)
-          ) {
-            parent[as].push(child);
-          }
-        } else {
-          parent[as] = child;
-        }
-      }
+// Whether an include removes parent rows that have no matching children.
+function filtersParent(node: IncludeNode): boolean {
+  return !!node.options.required || (!node.aggregated && !!node.options.where);
+}
+
+function emptyAssociations(nodes: IncludeNode[]): any {
+  const result: any = {};
+  for (const node of nodes) result[node.as] = node.toMany ? [] : null;
+  return result;
+}
+
+function readJoined(row: any, node: IncludeNode): any {
+  const child = emptyAssociations(node.children);
+  for (const field in node.model.attributes) {
+    child[field] = row[`${node.alias}_${field}`];
+  }
+  return child;
+}
+
+function readAggregated(value: any, node: IncludeNode): any {
+  const read = (struct: any) => {
+    for (const child of node.children) {
+      struct[child.as] = readAggregated(struct[child.as], child);
     }
+    return struct;
+  };
+  // ARRAY_AGG over no rows yields NULL.
+  if (node.toMany) return (value || []).map(read);
+  return value ? read(value) : null;
+}
 
-    return Array.from(parentMap.values());
+function isSameValue(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date)
+    return a.getTime() === b.getTime();
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    return JSON.stringify(a) === JSON.stringify(b);
   }
+  return false;
 }
@@ -8,6 +8,12 @@ export const Op = {
   lte: "<=",
   like: "LIKE",
   notLike: "NOT LIKE",
+  iLike: "ILIKE",
+  notILike: "NOT ILIKE",
+  startsWith: "STARTS_WITH",
+  endsWith: "ENDS_WITH",
+  regexp: "REGEXP_CONTAINS",
+  notRegexp: "NOT REGEXP_CONTAINS",
   in: "IN",
   notIn: "NOT IN",
   between: "BETWEEN",
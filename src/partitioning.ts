@@ -0,0 +1,103 @@
+import { TableMetadata } from "@google-cloud/bigquery";
+import type { Model } from "./model";
+
+export type TimePartitionType = "HOUR" | "DAY" | "MONTH" | "YEAR";
+
+export interface TimePartitionOptions {
+  // Omit to partition by ingestion time.
+  field?: string;
+  type?: TimePartitionType;
+}
+
+export interface RangePartitionOptions {
+  field: string;
+  range: { start: number; end: number; interval: number };
+}
+
+// A plain column name partitions by day on that column.
+export type PartitionOptions =
+  | string
+  | TimePartitionOptions
+  | RangePartitionOptions;
+
+export interface TableOptions {
+  partitionBy?: PartitionOptions;
+  clusterBy?: string[];
+  requirePartitionFilter?: boolean;
+  // Time partitioning only.
+  partitionExpirationDays?: number;
+}
+
+export function normalizePartition(
+  partitionBy: PartitionOptions
+): TimePartitionOptions | RangePartitionOptions {
+  return typeof partitionBy === "string"
+    ? { field: partitionBy, type: "DAY" }
+    : partitionBy;
+}
+
+export function isRangePartition(
+  partitionBy: PartitionOptions
+): partitionBy is RangePartitionOptions {
+  return typeof partitionBy === "object" && "range" in partitionBy;
+}
+
+export function modelTableOptions(model: typeof Model): TableOptions {
+  const options: TableOptions = {
+    partitionBy: model.partitionBy,
+    clusterBy: model.clusterBy,
+    requirePartitionFilter: model.requirePartitionFilter,
+    partitionExpirationDays: model.partitionExpirationDays,
+  };
+  for (const key of Object.keys(options) as (keyof TableOptions)[]) {
+    if (options[key] === undefined) delete options[key];
+  }
+  return options;
+}
+
+// Table metadata for `createTable` carrying partitioning and clustering.
+export function tableMetadata(options: TableOptions): TableMetadata {
+  const {
+    partitionBy,
+    clusterBy,
+    requirePartitionFilter,
+    partitionExpirationDays,
+  } = options;
+  const metadata: TableMetadata = {};
+  if (partitionBy === undefined) {
+    if (requirePartitionFilter || partitionExpirationDays !== undefined) {
+      throw new Error(
+        "requirePartitionFilter and partitionExpirationDays need partitionBy"
+      );
+    }
+  } else if (isRangePartition(partitionBy)) {
+    if (partitionExpirationDays !== undefined) {
+      throw new Error(
+        "partitionExpirationDays only applies to time partitioning"
+      );
+    }
+    const { start, end, interval } = partitionBy.range;
+    metadata.rangePartitioning = {
+      field: partitionBy.field,
+      range: {
+        start: String(start),
+        end: String(end),
+        interval: String(interval),
+      },
+    };
+  } else {
+    const { field, type = "DAY" } = normalizePartition(
+      partitionBy
+    ) as TimePartitionOptions;
+    metadata.timePartitioning = {
+      type,
+      ...(field && { field }),
+      ...(partitionExpirationDays !== undefined && {
+        expirationMs: String(partitionExpirationDays * 24 * 60 * 60 * 1000),
+      }),
+    };
+  }
+  if (requirePartitionFilter) metadata.requirePartitionFilter = true;
+  if (clusterBy?.length) metadata.clustering = { fields: clusterBy };
+  return metadata;
+}
@@ -1,26 +1,50 @@
-import { BigQuery } from "@google-cloud/bigquery";
-import { BigQueryORM } from "./bigQueryORM";
-import { DataTypes, DataType } from "./dataTypes";
-import { dataTypeToSchemaField } from "./utils";
+import { BigQuery, TableField } from "@google-cloud/bigquery";
+import { BigQueryORM, DryRunResult, QueryBudgetOptions } from "./bigQueryORM";
+import { AttributeDefinition, AttributeType, DataType } from "./dataTypes";
+import { loadJsonRows } from "./executor";
+import {
+  PartitionOptions,
+  RangePartitionOptions,
+  TableOptions,
+  TimePartitionOptions,
+  normalizePartition,
+  tableMetadata,
+} from "./partitioning";
+import { TransactionOptions } from "./transaction";
+import {
+  buildWhereClause,
+  dataTypeToSchemaField,
+  defaultValueExpression,
+  normalizeAttribute,
+  schemaFieldToAttribute,
+  toLoadValue,
+  toSqlLiteral,
+} from "./utils";
+
+export interface MaterializedViewOptions {
+  enableRefresh?: boolean;
+  refreshIntervalMinutes?: number;
+  // An INTERVAL expression, e.g. 'INTERVAL "4" HOUR'.
+  maxStaleness?: string;
+}
 
 export class QueryInterface {
   constructor(private orm: BigQueryORM) {}
 
   async createTable(
     tableName: string,
-    attributes: Record<string, DataType>,
-    options: { partitionBy?: string; clusterBy?: string[] } = {}
+    attributes: Record<string, AttributeType>,
+    options: TableOptions = {}
   ): Promise<void> {
     if (this.orm.config.freeTierMode) {
       console.warn(
         "Free tier mode: Table creation counts toward 10GB storage limit."
       );
     }
-    const dataset = this.orm.bigquery.dataset(this.orm.config.dataset);
-    const [dsExists] = await dataset.exists();
+    const dsExists = await this.orm.executor.datasetExists();
     if (!dsExists) {
       try {
-        await dataset.create();
+        await this.orm.executor.createDataset();
         if (this.orm.config.logging)
           console.log(`Created dataset ${this.orm.config.dataset}`);
       } catch (err: any) {
@@ -31,8 +55,7 @@ export class QueryInterface {
         throw err;
       }
     }
-    const table = dataset.table(tableName);
-    const [tExists] = await table.exists();
+    const tExists = await this.orm.executor.tableExists(tableName);
     if (tExists) {
       if (this.orm.config.logging)
         console.log(`Table ${tableName} already exists, skipping creation`);
@@ -41,18 +64,11 @@ export class QueryInterface {
     const schema = Object.entries(attributes).map(([name, type]) =>
       dataTypeToSchemaField(name, type)
     );
-    const createOptions: any = { schema };
-    if (options.partitionBy) {
-      createOptions.timePartitioning = {
-        type: "DAY",
-        field: options.partitionBy,
-      };
-    }
-    if (options.clusterBy) {
-      createOptions.clustering = { fields: options.clusterBy };
-    }
     try {
-      await table.create(createOptions);
+      await this.orm.executor.createTable(tableName, {
+        schema,
+        ...tableMetadata(options),
+      });
       if (this.orm.config.logging) console.log(`Created table ${tableName}`);
     } catch (err: any) {
       console.error(`Failed to create table ${tableName}:`, err.message);
@@ -66,17 +82,14 @@ export class QueryInterface {
         "Free tier mode: Table deletion counts toward storage changes."
       );
     }
-    const table = this.orm.bigquery
-      .dataset(this.orm.config.dataset)
-      .table(tableName);
-    const [exists] = await table.exists();
+    const exists = await this.orm.executor.tableExists(tableName);
     if (!exists) {
       if (this.orm.config.logging)
         console.log(`Table ${tableName} does not exist, skipping deletion`);
       return;
     }
     try {
-      await table.delete();
+      await this.orm.executor.deleteTable(tableName);
       if (this.orm.config.logging) console.log(`Deleted table ${tableName}`);
     } catch (err: any) {
       console.error(`Failed to delete table ${tableName}:`, err.message);
@@ -84,23 +97,222 @@ export class QueryInterface {
     }
   }
 
+  async createView(
+    viewName: string,
+    query: string,
+    options: { replace?: boolean } = {}
+  ): Promise<void> {
+    const view = `\`${this.orm.config.projectId}.${this.orm.config.dataset}.${viewName}\``;
+    const sql = options.replace
+      ? `CREATE OR REPLACE VIEW ${view} AS ${query}`
+      : `CREATE VIEW IF NOT EXISTS ${view} AS ${query}`;
+    try {
+      await this.orm.executor.query({ query: sql });
+      if (this.orm.config.logging) console.log(`Created view ${viewName}`);
+    } catch (err: any) {
+      console.error(`Failed to create view ${viewName}:`, err.message);
+      throw err;
+    }
+  }
+
+  async createMaterializedView(
+    viewName: string,
+    query: string,
+    options: MaterializedViewOptions & { replace?: boolean } = {}
+  ): Promise<void> {
+    if (this.orm.config.freeTierMode) {
+      console.warn(
+        "Free tier mode: Materialized views count toward 10GB storage limit and refreshes are billed."
+      );
+    }
+    const view = `\`${this.orm.config.projectId}.${this.orm.config.dataset}.${viewName}\``;
+    const viewOptions: string[] = [];
+    if (options.enableRefresh !== undefined) {
+      viewOptions.push(`enable_refresh = ${options.enableRefresh}`);
+    }
+    if (options.refreshIntervalMinutes !== undefined) {
+      viewOptions.push(
+        `refresh_interval_minutes = ${options.refreshIntervalMinutes}`
+      );
+    }
+    if (options.maxStaleness !== undefined) {
+      viewOptions.push(`max_staleness = ${options.maxStaleness}`);
+    }
+    let sql = options.replace
+      ? `CREATE OR REPLACE MATERIALIZED VIEW ${view}`
+      : `CREATE MATERIALIZED VIEW IF NOT EXISTS ${view}`;
+    if (viewOptions.length) sql += ` OPTIONS (${viewOptions.join(", ")})`;
+    sql += ` AS ${query}`;
+    try {
+      await this.orm.executor.query({ query: sql });
+      if (this.orm.config.logging)
+        console.log(`Created materialized view ${viewName}`);
+    } catch (err: any) {
+      console.error(
+        `Failed to create materialized view ${viewName}:`,
+        err.message
+      );
+      throw err;
+    }
+  }
+
+  // Changes refresh options in place, without the recompute a replace costs.
+  async alterMaterializedView(
+    viewName: string,
+    options: MaterializedViewOptions
+  ): Promise<void> {
+    const view = `\`${this.orm.config.projectId}.${this.orm.config.dataset}.${viewName}\``;
+    // NULL resets an option to BigQuery's default.
+    const sql = `ALTER MATERIALIZED VIEW ${view} SET OPTIONS (enable_refresh = ${
+      options.enableRefresh ?? true
+    }, refresh_interval_minutes = ${
+      options.refreshIntervalMinutes ?? "NULL"
+    }, max_staleness = ${options.maxStaleness ?? "NULL"})`;
+    try {
+      await this.orm.executor.query({ query: sql });
+      if (this.orm.config.logging)
+        console.log(`Altered materialized view ${viewName}`);
+    } catch (err: any) {
+      console.error(
+        `Failed to alter materialized view ${viewName}:`,
+        err.message
+      );
+      throw err;
+    }
+  }
+
+  async refreshMaterializedView(viewName: string): Promise<void> {
+    const sql = `CALL BQ.REFRESH_MATERIALIZED_VIEW('${this.orm.config.projectId}.${this.orm.config.dataset}.${viewName}')`;
+    try {
+      await this.orm.executor.query({ query: sql });
+      if (this.orm.config.logging)
+        console.log(`Refreshed materialized view ${viewName}`);
+    } catch (err: any) {
+      console.error(
+        `Failed to refresh materialized view ${viewName}:`,
+        err.message
+      );
+      throw err;
+    }
+  }
+
+  // Drops views and materialized views alike.
+  async dropView(viewName: string): Promise<void> {
+    const exists = await this.orm.executor.tableExists(viewName);
+    if (!exists) {
+      if (this.orm.config.logging)
+        console.log(`View ${viewName} does not exist, skipping deletion`);
+      return;
+    }
+    try {
+      await this.orm.executor.deleteTable(viewName);
+      if (this.orm.config.logging) console.log(`Deleted view ${viewName}`);
+    } catch (err: any) {
+      console.error(`Failed to delete view ${viewName}:`, err.message);
+      throw err;
+    }
+  }
+
+  async createSnapshot(
+    tableName: string,
+    snapshotName: string,
+    options: { asOf?: Date | string; expiration?: Date } = {}
+  ): Promise<void> {
+    let sql = `CREATE SNAPSHOT TABLE ${this.qualify(
+      snapshotName
+    )} CLONE ${this.qualify(tableName)}${this.systemTime(options.asOf)}`;
+    if (options.expiration) {
+      sql += ` OPTIONS (expiration_timestamp = ${toSqlLiteral(
+        options.expiration
+      )})`;
+    }
+    try {
+      await this.orm.executor.query({ query: sql });
+      if (this.orm.config.logging)
+        console.log(`Created snapshot ${snapshotName} of ${tableName}`);
+    } catch (err: any) {
+      console.error(
+        `Failed to create snapshot ${snapshotName} of ${tableName}:`,
+        err.message
+      );
+      throw err;
+    }
+  }
+
+  // A writable copy that only pays for storage where it diverges from the source.
+  async cloneTable(
+    sourceTable: string,
+    destinationTable: string,
+    options: { asOf?: Date | string } = {}
+  ): Promise<void> {
+    const sql = `CREATE TABLE ${this.qualify(
+      destinationTable
+    )} CLONE ${this.qualify(sourceTable)}${this.systemTime(options.asOf)}`;
+    try {
+      await this.orm.executor.query({ query: sql });
+      if (this.orm.config.logging)
+        console.log(`Cloned ${sourceTable} to ${destinationTable}`);
+    } catch (err: any) {
+      console.error(
+        `Failed to clone ${sourceTable} to ${destinationTable}:`,
+        err.message
+      );
+      throw err;
+    }
+  }
+
+  // Replaces the table's contents and schema with those of the snapshot.
+  async restoreTable(snapshotName: string, tableName: string): Promise<void> {
+    const sql = `CREATE OR REPLACE TABLE ${this.qualify(
+      tableName
+    )} CLONE ${this.qualify(snapshotName)}`;
+    try {
+      await this.orm.executor.query({ query: sql });
+      if (this.orm.config.logging)
+        console.log(`Restored ${tableName} from ${snapshotName}`);
+    } catch (err: any) {
+      console.error(
+        `Failed to restore ${tableName} from ${snapshotName}:`,
+        err.message
+      );
+      throw err;
+    }
+  }
+
   async addColumn(
     tableName: string,
     columnName: string,
-    type: DataType
+    attribute: AttributeType
   ): Promise<void> {
     if (this.orm.config.freeTierMode) {
       throw new Error(
         "Free tier mode: ADD COLUMN (DML) not allowed. Enable billing at https://console.cloud.google.com/billing."
       );
     }
-    const sql = `ALTER TABLE \`${this.orm.config.projectId}.${
-      this.orm.config.dataset
-    }.${tableName}\` ADD COLUMN \`${columnName}\` ${this.dataTypeToString(
-      type
-    )}`;
+    const definition = normalizeAttribute(attribute);
+    if (definition.allowNull === false) {
+      console.warn(
+        `BigQuery cannot add REQUIRED columns to existing tables; ${columnName} will be NULLABLE.`
+      );
+    }
+    if (columnName.includes(".")) {
+      // DDL cannot reach into RECORDs, so nested fields go through a schema patch.
+      const fieldName = columnName.split(".").pop()!;
+      const field = dataTypeToSchemaField(fieldName, {
+        ...definition,
+        allowNull: true,
+      });
+      await this.patchSchema(tableName, columnName, (fields) => {
+        fields.push(field);
+      });
+      if (this.orm.config.logging)
+        console.log(`Added field ${columnName} to ${tableName}`);
+      return;
+    }
+    const columnSql = this.columnDefinition(definition);
+    const sql = `ALTER TABLE \`${this.orm.config.projectId}.${this.orm.config.dataset}.${tableName}\` ADD COLUMN \`${columnName}\` ${columnSql}`;
     try {
-      await this.orm.bigquery.query(sql);
+      await this.orm.executor.query({ query: sql });
       if (this.orm.config.logging)
         console.log(`Added column ${columnName} to ${tableName}`);
     } catch (err: any) {
@@ -112,6 +324,35 @@ export class QueryInterface {
     }
   }
 
+  async relaxColumn(tableName: string, columnName: string): Promise<void> {
+    if (this.orm.config.freeTierMode) {
+      throw new Error(
+        "Free tier mode: ALTER COLUMN (DML) not allowed. Enable billing at https://console.cloud.google.com/billing."
+      );
+    }
+    if (columnName.includes(".")) {
+      const fieldName = columnName.split(".").pop()!;
+      await this.patchSchema(tableName, columnName, (fields) => {
+        const field = fields.find((f) => f.name === fieldName);
+        if (!field) throw new Error(`Column ${columnName} not found`);
+        field.mode = "NULLABLE";
+      });
+    } else {
+      const sql = `ALTER TABLE \`${this.orm.config.projectId}.${this.orm.config.dataset}.${tableName}\` ALTER COLUMN \`${columnName}\` DROP NOT NULL`;
+      try {
+        await this.orm.executor.query({ query: sql });
+      } catch (err: any) {
+        console.error(
+          `Failed to relax column ${columnName} in ${tableName}:`,
+          err.message
+        );
+        throw err;
+      }
+    }
+    if (this.orm.config.logging)
+      console.log(`Relaxed column ${columnName} in ${tableName} to NULLABLE`);
+  }
+
   async removeColumn(tableName: string, columnName: string): Promise<void> {
     if (this.orm.config.freeTierMode) {
       throw new Error(
@@ -120,7 +361,7 @@ export class QueryInterface {
     }
     const sql = `ALTER TABLE \`${this.orm.config.projectId}.${this.orm.config.dataset}.${tableName}\` DROP COLUMN IF EXISTS \`${columnName}\``;
     try {
-      await this.orm.bigquery.query(sql);
+      await this.orm.executor.query({ query: sql });
       if (this.orm.config.logging)
         console.log(`Removed column ${columnName} from ${tableName}`);
     } catch (err: any) {
@@ -144,7 +385,7 @@ export class QueryInterface {
     }
     const sql = `ALTER TABLE \`${this.orm.config.projectId}.${this.orm.config.dataset}.${tableName}\` RENAME COLUMN \`${oldColumnName}\` TO \`${newColumnName}\``;
     try {
-      await this.orm.bigquery.query(sql);
+      await this.orm.executor.query({ query: sql });
       if (this.orm.config.logging)
         console.log(
           `Renamed column ${oldColumnName} to ${newColumnName} in ${tableName}`
@@ -161,20 +402,39 @@ export class QueryInterface {
   async changeColumn(
     tableName: string,
     columnName: string,
-    type: DataType
+    attribute: AttributeType
   ): Promise<void> {
     if (this.orm.config.freeTierMode) {
       throw new Error(
         "Free tier mode: ALTER COLUMN (DML) not allowed. Enable billing at https://console.cloud.google.com/billing."
       );
     }
+    const definition = normalizeAttribute(attribute);
+    const alterColumn = `ALTER TABLE \`${this.orm.config.projectId}.${this.orm.config.dataset}.${tableName}\` ALTER COLUMN \`${columnName}\``;
+    const statements = [
+      `${alterColumn} SET DATA TYPE ${this.dataTypeToString(
+        definition.type,
+        definition
+      )}`,
+    ];
+    if (definition.allowNull === true) {
+      statements.push(`${alterColumn} DROP NOT NULL`);
+    }
+    const defaultExpression = defaultValueExpression(definition.defaultValue);
+    if (defaultExpression !== undefined) {
+      statements.push(`${alterColumn} SET DEFAULT ${defaultExpression}`);
+    }
+    if (definition.description !== undefined) {
+      statements.push(
+        `${alterColumn} SET OPTIONS (description = ${toSqlLiteral(
+          definition.description
+        )})`
+      );
+    }
     try {
-      const sql = `ALTER TABLE \`${this.orm.config.projectId}.${
-        this.orm.config.dataset
-      }.${tableName}\` ALTER COLUMN \`${columnName}\` SET DATA TYPE ${this.dataTypeToString(
-        type
-      )}`;
-      await this.orm.bigquery.query(sql);
+      for (const sql of statements) {
+        await this.orm.executor.query({ query: sql });
+      }
       if (this.orm.config.logging)
         console.log(`Changed column ${columnName} type in ${tableName}`);
     } catch (err: any) {
@@ -185,21 +445,127 @@ export class QueryInterface {
     }
   }
 
-  async addPartition(tableName: string, partitionBy: string): Promise<void> {
-    console.warn("Partitioning requires table recreation.");
+  async addPartition(
+    tableName: string,
+    partitionBy: PartitionOptions,
+    options: Omit<TableOptions, "partitionBy"> & { dropBackup?: boolean } = {}
+  ): Promise<string | null> {
+    if (this.orm.config.freeTierMode) {
+      throw new Error(
+        "Free tier mode: CREATE TABLE AS SELECT (DML) not allowed. Enable billing at https://console.cloud.google.com/billing."
+      );
+    }
+    const partition = normalizePartition(partitionBy);
+    if (!partition.field) {
+      throw new Error(
+        `Cannot add ingestion-time partitioning to ${tableName}: existing rows have no ingestion time. Partition on a column instead.`
+      );
+    }
+    const qualified = (name: string) =>
+      `\`${this.orm.config.projectId}.${this.orm.config.dataset}.${name}\``;
+    // Partitioning cannot be changed in place, so copy the rows into a new
+    // table and swap it in with renames. Rows written after the copy are only
+    // in the backup, so it is kept unless `dropBackup` is set.
+    const { dropBackup = false } = options;
+    const stamp = Date.now();
+    const rebuilt = `${tableName}_repartition_${stamp}`;
+    const backup = `${tableName}_backup_${stamp}`;
+    try {
+      const metadata = await this.orm.executor.getTableMetadata(tableName);
+      const fields: TableField[] = metadata.schema?.fields || [];
+      const column = fields.find((f) => f.name === partition.field);
+      if (!column) {
+        throw new Error(`Column ${partition.field} not found in ${tableName}`);
+      }
+      // Keep the table's clustering unless new clustering is given.
+      const clusterBy = options.clusterBy ?? metadata.clustering?.fields;
+      // Rejects option combinations BigQuery would refuse.
+      tableMetadata({ ...options, partitionBy });
+      const columns = fields.map((field) => {
+        const definition = normalizeAttribute(schemaFieldToAttribute(field));
+        return `\`${field.name}\` ${this.columnDefinition(
+          definition,
+          definition.allowNull === false
+        )}`;
+      });
+      let sql = `CREATE TABLE ${qualified(rebuilt)} (${columns.join(
+        ", "
+      )}) PARTITION BY ${this.partitionExpression(partition, column.type)}`;
+      if (clusterBy?.length) {
+        sql += ` CLUSTER BY ${clusterBy.map((c) => `\`${c}\``).join(", ")}`;
+      }
+      const tableOptions: string[] = [];
+      if (options.requirePartitionFilter) {
+        tableOptions.push("require_partition_filter = true");
+      }
+      if (options.partitionExpirationDays !== undefined) {
+        tableOptions.push(
+          `partition_expiration_days = ${options.partitionExpirationDays}`
+        );
+      }
+      if (tableOptions.length) sql += ` OPTIONS (${tableOptions.join(", ")})`;
+      sql += ` AS SELECT * FROM ${qualified(tableName)}`;
+      await this.orm.executor.query({ query: sql });
+    } catch (err: any) {
+      console.error(
+        `Failed to rebuild ${tableName} with partitioning:`,
+        err.message
+      );
+      throw err;
+    }
+
+    try {
+      await this.orm.executor.query({
+        query: `ALTER TABLE ${qualified(tableName)} RENAME TO \`${backup}\``,
+      });
+    } catch (err: any) {
+      console.error(`Failed to swap in partitioned ${tableName}:`, err.message);
+      try {
+        await this.orm.executor.deleteTable(rebuilt);
+      } catch (cleanupErr: any) {
+        console.error(`Failed to delete ${rebuilt}:`, cleanupErr.message);
+      }
+      throw err;
+    }
+    try {
+      await this.orm.executor.query({
+        query: `ALTER TABLE ${qualified(rebuilt)} RENAME TO \`${tableName}\``,
+      });
+    } catch (err: any) {
+      console.error(`Failed to swap in partitioned ${tableName}:`, err.message);
+      try {
+        await this.orm.executor.query({
+          query: `ALTER TABLE ${qualified(backup)} RENAME TO \`${tableName}\``,
+        });
+      } catch (restoreErr: any) {
+        console.error(
+          `Failed to restore ${tableName} from ${backup}; its rows are in ${backup} and ${rebuilt}:`,
+          restoreErr.message
+        );
+      }
+      throw err;
+    }
+    if (this.orm.config.logging)
+      console.log(`Rebuilt ${tableName} with partitioning`);
+    if (!dropBackup) return backup;
+    try {
+      await this.orm.executor.deleteTable(backup);
+    } catch (err: any) {
+      // The data is already in the partitioned table.
+      console.error(`Failed to delete ${backup}:`, err.message);
+      return backup;
+    }
+    return null;
   }
 
   async addClustering(tableName: string, clusterBy: string[]): Promise<void> {
     if (this.orm.config.freeTierMode) {
       console.warn("Free tier mode: Clustering may incur query costs.");
     }
-    const sql = `ALTER TABLE \`${this.orm.config.projectId}.${
-      this.orm.config.dataset
-    }.${tableName}\` SET OPTIONS (clustering_fields = '${JSON.stringify(
-      clusterBy
-    )}')`;
     try {
-      await this.orm.bigquery.query(sql);
+      await this.orm.executor.setTableMetadata(tableName, {
+        clustering: { fields: clusterBy },
+      });
       if (this.orm.config.logging)
         console.log(`Added clustering to ${tableName}`);
     } catch (err: any) {
@@ -208,7 +574,134 @@ export class QueryInterface {
     }
   }
 
-  async query(sql: string, params?: any): Promise<any> {
+  // Partitioning itself cannot change in place; see addPartition.
+  async setPartitionOptions(
+    tableName: string,
+    options: Pick<
+      TableOptions,
+      "requirePartitionFilter" | "partitionExpirationDays"
+    >
+  ): Promise<void> {
+    try {
+      const { timePartitioning } = await this.orm.executor.getTableMetadata(
+        tableName
+      );
+      const { partitionExpirationDays } = options;
+      if (partitionExpirationDays !== undefined && !timePartitioning) {
+        throw new Error(
+          "partitionExpirationDays only applies to time partitioning"
+        );
+      }
+      await this.orm.executor.setTableMetadata(tableName, {
+        requirePartitionFilter: !!options.requirePartitionFilter,
+        ...(timePartitioning && {
+          timePartitioning: {
+            ...timePartitioning,
+            // A missing field would leave the expiration unchanged.
+            expirationMs:
+              partitionExpirationDays === undefined
+                ? (null as any)
+                : String(partitionExpirationDays * 24 * 60 * 60 * 1000),
+          },
+        }),
+      });
+      if (this.orm.config.logging)
+        console.log(`Changed partition options of ${tableName}`);
+    } catch (err: any) {
+      console.error(
+        `Failed to change partition options of ${tableName}:`,
+        err.message
+      );
+      throw err;
+    }
+  }
+
+  async bulkInsert(
+    tableName: string,
+    rows: Record<string, any>[]
+  ): Promise<number> {
+    if (!rows.length) return 0;
+    // A load job is free, allowed in free tier and, unlike streaming inserts,
+    // leaves the rows immediately deletable by bulkDelete.
+    try {
+      const { schema } = await this.orm.executor.getTableMetadata(tableName);
+      const types = new Map(
+        (schema?.fields || []).map((field) => [
+          field.name,
+          normalizeAttribute(schemaFieldToAttribute(field)).type,
+        ])
+      );
+      await loadJsonRows(
+        this.orm.executor,
+        tableName,
+        rows.map((row) =>
+          Object.fromEntries(
+            Object.entries(row).map(([name, value]) => [
+              name,
+              toLoadValue(value, types.get(name) || "JSON"),
+            ])
+          )
+        ),
+        { writeDisposition: "WRITE_APPEND" }
+      );
+      if (this.orm.config.logging)
+        console.log(`Inserted ${rows.length} rows into ${tableName}`);
+      return rows.length;
+    } catch (err: any) {
+      console.error(`Failed to insert rows into ${tableName}:`, err.message);
+      throw err;
+    }
+  }
+
+  async bulkDelete(
+    tableName: string,
+    where: Record<string, any> = {},
+    options: TransactionOptions = {}
+  ): Promise<number> {
+    if (this.orm.config.freeTierMode) {
+      throw new Error(
+        "Free tier mode: DELETE not allowed. Enable billing at https://console.cloud.google.com/billing."
+      );
+    }
+    const { clause, params } = buildWhereClause(where);
+    const sql = `DELETE FROM \`${this.orm.config.projectId}.${
+      this.orm.config.dataset
+    }.${tableName}\` WHERE ${clause || "TRUE"}`;
+    try {
+      const { metadata } = await this.orm.executor.query({
+        query: sql,
+        params,
+        ...(options.transaction && {
+          connectionProperties: options.transaction.connectionProperties,
+        }),
+      });
+      const deleted = Number(
+        metadata.statistics?.query?.numDmlAffectedRows || 0
+      );
+      if (this.orm.config.logging)
+        console.log(`Deleted ${deleted} rows from ${tableName}`);
+      return deleted;
+    } catch (err: any) {
+      console.error(`Failed to delete rows from ${tableName}:`, err.message);
+      throw err;
+    }
+  }
+
+  query(
+    sql: string,
+    params: any,
+    options: TransactionOptions & QueryBudgetOptions & { dryRun: true }
+  ): Promise<DryRunResult>;
+  query(
+    sql: string,
+    params?: any,
+    options?: TransactionOptions & QueryBudgetOptions
+  ): Promise<any>;
+  async query(
+    sql: string,
+    params?: any,
+    options: TransactionOptions & QueryBudgetOptions = {}
+  ): Promise<any> {
     if (
       this.orm.config.freeTierMode &&
       sql.trim().toUpperCase().startsWith("INSERT")
@@ -217,23 +710,149 @@ export class QueryInterface {
         "Free tier mode: INSERT queries not allowed. Enable billing at https://console.cloud.google.com/billing."
       );
     }
+    const query = {
+      query: sql,
+      params,
+      ...(options.transaction && {
+        connectionProperties: options.transaction.connectionProperties,
+      }),
+    };
+    if (options.dryRun) return this.orm.dryRun(query);
     try {
-      const result = await this.orm.bigquery.query({ query: sql, params });
+      const { rows, metadata } = await this.orm.executor.query(
+        await this.orm.applyByteBudget(query, options.maximumBytesBilled)
+      );
       if (this.orm.config.logging) console.log(`Executed query: ${sql}`);
-      return result;
+      return [rows, metadata];
     } catch (err: any) {
       console.error("Query failed:", err.message);
       throw err;
     }
   }
 
-  private dataTypeToString(type: DataType): string {
-    if (typeof type === "string") return type;
+  private async patchSchema(
+    tableName: string,
+    columnPath: string,
+    update: (fields: TableField[]) => void
+  ): Promise<void> {
+    try {
+      const metadata = await this.orm.executor.getTableMetadata(tableName);
+      const fields: TableField[] = metadata.schema?.fields || [];
+      let current = fields;
+      for (const segment of columnPath.split(".").slice(0, -1)) {
+        const parent = current.find((f) => f.name === segment);
+        if (!parent || !parent.fields) {
+          throw new Error(
+            `Column ${columnPath} has no parent RECORD ${segment} in ${tableName}`
+          );
+        }
+        current = parent.fields;
+      }
+      update(current);
+      await this.orm.executor.setTableMetadata(tableName, {
+        schema: { fields },
+      });
+    } catch (err: any) {
+      console.error(
+        `Failed to update schema of ${tableName} for ${columnPath}:`,
+        err.message
+      );
+      throw err;
+    }
+  }
+
+  private qualify(tableName: string): string {
+    return `\`${this.orm.config.projectId}.${this.orm.config.dataset}.${tableName}\``;
+  }
+
+  private systemTime(asOf?: Date | string): string {
+    if (asOf === undefined) return "";
+    return ` FOR SYSTEM_TIME AS OF ${
+      typeof asOf === "string"
+        ? `TIMESTAMP(${toSqlLiteral(asOf)})`
+        : toSqlLiteral(asOf)
+    }`;
+  }
+
+  private columnDefinition(
+    definition: AttributeDefinition,
+    notNull = false
+  ): string {
+    let columnSql = this.dataTypeToString(definition.type, definition);
+    const defaultExpression = defaultValueExpression(definition.defaultValue);
+    if (defaultExpression !== undefined) {
+      columnSql += ` DEFAULT ${defaultExpression}`;
+    }
+    if (notNull) columnSql += " NOT NULL";
+    if (definition.description) {
+      columnSql += ` OPTIONS (description = ${toSqlLiteral(
+        definition.description
+      )})`;
+    }
+    return columnSql;
+  }
+
+  private partitionExpression(
+    partition: TimePartitionOptions | RangePartitionOptions,
+    columnType = "TIMESTAMP"
+  ): string {
+    const column = `\`${partition.field}\``;
+    if ("range" in partition) {
+      const { start, end, interval } = partition.range;
+      return `RANGE_BUCKET(${column}, GENERATE_ARRAY(${start}, ${end}, ${interval}))`;
+    }
+    const type = partition.type || "DAY";
+    switch (columnType.toUpperCase()) {
+      case "DATE":
+        if (type === "HOUR") {
+          throw new Error(
+            `Cannot partition DATE column ${partition.field} by HOUR`
+          );
+        }
+        return type === "DAY" ? column : `DATE_TRUNC(${column}, ${type})`;
+      case "DATETIME":
+        return `DATETIME_TRUNC(${column}, ${type})`;
+      case "TIMESTAMP":
+        return `TIMESTAMP_TRUNC(${column}, ${type})`;
+      default:
+        throw new Error(
+          `Cannot time-partition ${partition.field} of type ${columnType}`
+        );
+    }
+  }
+
+  private dataTypeToString(
+    type: DataType,
+    parameters: { maxLength?: number; precision?: number; scale?: number } = {}
+  ): string {
+    if (typeof type === "string") {
+      if (
+        (type === "STRING" || type === "BYTES") &&
+        parameters.maxLength !== undefined
+      ) {
+        return `${type}(${parameters.maxLength})`;
+      }
+      if (
+        (type === "NUMERIC" || type === "BIGNUMERIC") &&
+        parameters.precision !== undefined
+      ) {
+        return parameters.scale !== undefined
+          ? `${type}(${parameters.precision}, ${parameters.scale})`
+          : `${type}(${parameters.precision})`;
+      }
+      // Legacy schema names that DDL does not accept.
+      if (type === "FLOAT") return "FLOAT64";
+      if (type === "BOOLEAN") return "BOOL";
+      return type;
+    }
     if (type.type === "ARRAY")
       return `ARRAY<${this.dataTypeToString(type.items)}>`;
     if (type.type === "STRUCT") {
       return `STRUCT<${Object.entries(type.fields)
-        .map(([n, t]) => `\`${n}\` ${this.dataTypeToString(t)}`)
+        .map(([n, t]) => {
+          const field = normalizeAttribute(t);
+          return `\`${n}\` ${this.dataTypeToString(field.type, field)}`;
+        })
         .join(", ")}>`;
     }
     return "";
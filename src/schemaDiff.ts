@@ -0,0 +1,302 @@
+import { TableField, TableMetadata } from "@google-cloud/bigquery";
+import { AttributeType } from "./dataTypes";
+import { TableOptions, tableMetadata } from "./partitioning";
+import { dataTypeToSchemaField, normalizeAttribute } from "./utils";
+
+export type SchemaChangeAction =
+  | "createTable"
+  | "recreateTable"
+  | "addColumn"
+  | "relaxColumn"
+  | "widenColumn"
+  | "changeColumnType"
+  | "changeColumnMode"
+  | "dropColumn"
+  | "createView"
+  | "replaceView"
+  | "alterView"
+  | "changePartitioning"
+  | "changePartitionOptions"
+  | "changeClustering";
+
+export interface SchemaChange {
+  tableName: string;
+  action: SchemaChangeAction;
+  column?: string;
+  attribute?: AttributeType;
+  // Desired table options for changeClustering and changePartitionOptions.
+  tableOptions?: TableOptions;
+  from?: string;
+  to?: string;
+  // False for changes BigQuery cannot make in place (drops, narrowings, ...).
+  applicable: boolean;
+  description: string;
+}
+
+const TYPE_ALIASES: Record<string, string> = {
+  INT64: "INTEGER",
+  FLOAT64: "FLOAT",
+  BOOL: "BOOLEAN",
+  STRUCT: "RECORD",
+};
+
+// Coercions accepted by ALTER COLUMN SET DATA TYPE.
+const TYPE_WIDENINGS: Record<string, string[]> = {
+  INTEGER: ["NUMERIC", "BIGNUMERIC", "FLOAT"],
+  NUMERIC: ["BIGNUMERIC", "FLOAT"],
+  BIGNUMERIC: ["FLOAT"],
+};
+
+function baseType(field: TableField): string {
+  const type = (field.type || "").toUpperCase();
+  return TYPE_ALIASES[type] || type;
+}
+
+function optionalNumber(value: any): number | undefined {
+  return value === undefined || value === null ? undefined : Number(value);
+}
+
+export function describeField(field: TableField): string {
+  let type = baseType(field);
+  const maxLength = optionalNumber(field.maxLength);
+  const precision = optionalNumber(field.precision);
+  const scale = optionalNumber(field.scale);
+  if (maxLength !== undefined) type += `(${maxLength})`;
+  else if (precision !== undefined)
+    type += scale !== undefined ? `(${precision}, ${scale})` : `(${precision})`;
+  const mode = field.mode || "NULLABLE";
+  return mode === "NULLABLE" ? type : `${mode} ${type}`;
+}
+
+function isWidening(current: TableField, desired: TableField): boolean {
+  const from = baseType(current);
+  const to = baseType(desired);
+  if (from !== to) {
+    return (
+      (TYPE_WIDENINGS[from] || []).includes(to) &&
+      desired.precision === undefined &&
+      desired.maxLength === undefined
+    );
+  }
+  if (from === "STRING" || from === "BYTES") {
+    const currentLength = optionalNumber(current.maxLength);
+    const desiredLength = optionalNumber(desired.maxLength);
+    if (desiredLength === undefined) return true;
+    return currentLength !== undefined && desiredLength >= currentLength;
+  }
+  if (from === "NUMERIC" || from === "BIGNUMERIC") {
+    const currentPrecision = optionalNumber(current.precision);
+    const desiredPrecision = optionalNumber(desired.precision);
+    if (desiredPrecision === undefined) return true;
+    if (currentPrecision === undefined) return false;
+    const currentScale = optionalNumber(current.scale) || 0;
+    const desiredScale = optionalNumber(desired.scale) || 0;
+    // Neither the integer digits nor the fractional digits may shrink.
+    return (
+      desiredScale >= currentScale &&
+      desiredPrecision - desiredScale >= currentPrecision - currentScale
+    );
+  }
+  return false;
+}
+
+function structFields(
+  attribute: AttributeType
+): Record<string, AttributeType> | undefined {
+  const { type } = normalizeAttribute(attribute);
+  if (typeof type === "string") return undefined;
+  if (type.type === "STRUCT") return type.fields;
+  if (type.type === "ARRAY") return structFields(type.items);
+  return undefined;
+}
+
+/**
+ * Compares a table's live schema with model attributes. Nested RECORD fields
+ * are compared recursively and reported with dotted column paths.
+ */
+export function diffTableSchema(
+  tableName: string,
+  attributes: Record<string, AttributeType>,
+  liveFields: TableField[] = [],
+  prefix = ""
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const live = new Map(liveFields.map((field) => [field.name, field]));
+
+  for (const [name, attribute] of Object.entries(attributes)) {
+    const column = `${prefix}${name}`;
+    const desired: TableField = dataTypeToSchemaField(name, attribute);
+    const current = live.get(name);
+    if (!current) {
+      changes.push({
+        tableName,
+        action: "addColumn",
+        column,
+        attribute,
+        to: describeField(desired),
+        applicable: true,
+        description:
+          desired.mode === "REQUIRED"
+            ? `Add column ${column} ${describeField({
+                ...desired,
+                mode: "NULLABLE",
+              })} (BigQuery cannot add REQUIRED columns)`
+            : `Add column ${column} ${describeField(desired)}`,
+      });
+      continue;
+    }
+
+    const currentMode = current.mode || "NULLABLE";
+    const desiredMode = desired.mode || "NULLABLE";
+    if (currentMode !== desiredMode) {
+      const relax = currentMode === "REQUIRED" && desiredMode === "NULLABLE";
+      changes.push({
+        tableName,
+        action: relax ? "relaxColumn" : "changeColumnMode",
+        column,
+        from: currentMode,
+        to: desiredMode,
+        applicable: relax,
+        description: relax
+          ? `Relax column ${column} from REQUIRED to NULLABLE`
+          : `Change mode of ${column} from ${currentMode} to ${desiredMode} (not supported in place)`,
+      });
+    }
+
+    if (baseType(current) === "RECORD" && baseType(desired) === "RECORD") {
+      changes.push(
+        ...diffTableSchema(
+          tableName,
+          structFields(attribute) || {},
+          current.fields || [],
+          `${column}.`
+        )
+      );
+      continue;
+    }
+
+    const from = describeField({ ...current, mode: undefined });
+    const to = describeField({ ...desired, mode: undefined });
+    if (from === to) continue;
+    // SET DATA TYPE only works on top-level columns.
+    const widen = isWidening(current, desired);
+    changes.push({
+      tableName,
+      action: widen ? "widenColumn" : "changeColumnType",
+      column,
+      attribute,
+      from,
+      to,
+      applicable: widen && !prefix,
+      description: widen
+        ? prefix
+          ? `Widen nested field ${column} from ${from} to ${to} (not supported in place)`
+          : `Widen column ${column} from ${from} to ${to}`
+        : `Change type of ${column} from ${from} to ${to} (narrowing or incompatible; not supported in place)`,
+    });
+  }
+
+  for (const field of liveFields) {
+    if (field.name && !(field.name in attributes)) {
+      const column = `${prefix}${field.name}`;
+      changes.push({
+        tableName,
+        action: "dropColumn",
+        column,
+        from: describeField(field),
+        applicable: false,
+        description: `Drop column ${column} (not applied automatically)`,
+      });
+    }
+  }
+  return changes;
+}
+
+function describePartitioning(metadata: TableMetadata): string {
+  const { timePartitioning, rangePartitioning } = metadata;
+  if (rangePartitioning) {
+    const { start, end, interval } = rangePartitioning.range || {};
+    return `RANGE_BUCKET(${rangePartitioning.field}, ${start}, ${end}, ${interval})`;
+  }
+  if (timePartitioning) {
+    const type = timePartitioning.type || "DAY";
+    return timePartitioning.field
+      ? `${type}(${timePartitioning.field})`
+      : `${type}(ingestion time)`;
+  }
+  return "none";
+}
+
+function describePartitionOptions(metadata: TableMetadata): string {
+  const expirationMs = optionalNumber(metadata.timePartitioning?.expirationMs);
+  return [
+    `requirePartitionFilter: ${!!metadata.requirePartitionFilter}`,
+    `expiration: ${
+      expirationMs === undefined
+        ? "none"
+        : `${expirationMs / (24 * 60 * 60 * 1000)} days`
+    }`,
+  ].join(", ");
+}
+
+/**
+ * Compares a table's live partitioning and clustering with the model's table
+ * options. Partitioning can only change by rebuilding the table; clustering,
+ * the partition filter requirement and partition expiration change in place.
+ */
+export function diffTableOptions(
+  tableName: string,
+  options: TableOptions,
+  metadata: TableMetadata
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const desired = tableMetadata(options);
+  const fromPartitioning = describePartitioning(metadata);
+  const toPartitioning = describePartitioning(desired);
+  if (fromPartitioning !== toPartitioning) {
+    changes.push({
+      tableName,
+      action: "changePartitioning",
+      from: fromPartitioning,
+      to: toPartitioning,
+      applicable: false,
+      description: `Change partitioning of ${tableName} from ${fromPartitioning} to ${toPartitioning} (requires rebuilding the table, e.g. with addPartition)`,
+    });
+  } else if (toPartitioning !== "none") {
+    const fromOptions = describePartitionOptions(metadata);
+    const toOptions = describePartitionOptions(desired);
+    if (fromOptions !== toOptions) {
+      changes.push({
+        tableName,
+        action: "changePartitionOptions",
+        tableOptions: {
+          requirePartitionFilter: options.requirePartitionFilter,
+          partitionExpirationDays: options.partitionExpirationDays,
+        },
+        from: fromOptions,
+        to: toOptions,
+        applicable: true,
+        description: `Change partition options of ${tableName} from ${fromOptions} to ${toOptions}`,
+      });
+    }
+  }
+  const fromClustering = (metadata.clustering?.fields || []).join(", ");
+  const toClustering = (options.clusterBy || []).join(", ");
+  if (fromClustering !== toClustering) {
+    changes.push({
+      tableName,
+      action: "changeClustering",
+      tableOptions: { clusterBy: options.clusterBy },
+      from: fromClustering || "none",
+      to: toClustering || "none",
+      // Removing clustering is left to a migration, like dropped columns.
+      applicable: !!toClustering,
+      description: toClustering
+        ? `Cluster ${tableName} by ${toClustering}${
+            fromClustering ? ` instead of ${fromClustering}` : ""
+          }`
+        : `Remove clustering on ${fromClustering} from ${tableName} (not applied automatically)`,
+    });
+  }
+  return changes;
+}
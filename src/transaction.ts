@@ -0,0 +1,79 @@
+import { BigQueryORM } from "./bigQueryORM";
+
+export class Transaction {
+  public sessionId: string | null = null;
+  private finished: "commit" | "rollback" | null = null;
+
+  constructor(private orm: BigQueryORM) {}
+
+  get connectionProperties(): { key: string; value: string }[] {
+    if (!this.sessionId) {
+      throw new Error("Transaction has not been started.");
+    }
+    if (this.finished) {
+      throw new Error(
+        `Transaction has already been finished with ${this.finished}.`
+      );
+    }
+    return [{ key: "session_id", value: this.sessionId }];
+  }
+
+  async begin(): Promise<void> {
+    if (this.sessionId) {
+      throw new Error("Transaction has already been started.");
+    }
+    try {
+      const { metadata } = await this.orm.executor.query({
+        query: "BEGIN TRANSACTION",
+        createSession: true,
+      });
+      const sessionId = metadata.statistics?.sessionInfo?.sessionId;
+      if (!sessionId) {
+        throw new Error("BigQuery did not return a session id.");
+      }
+      this.sessionId = sessionId;
+      if (this.orm.config.logging)
+        console.log(`Started transaction in session ${sessionId}`);
+    } catch (err: any) {
+      console.error("Failed to begin transaction:", err.message);
+      throw err;
+    }
+  }
+
+  async commit(): Promise<void> {
+    await this.finish("commit");
+    if (this.orm.config.logging)
+      console.log(`Committed transaction in session ${this.sessionId}`);
+  }
+
+  async rollback(): Promise<void> {
+    await this.finish("rollback");
+    if (this.orm.config.logging)
+      console.log(`Rolled back transaction in session ${this.sessionId}`);
+  }
+
+  get isFinished(): boolean {
+    return this.finished !== null;
+  }
+
+  private async finish(kind: "commit" | "rollback"): Promise<void> {
+    const connectionProperties = this.connectionProperties;
+    try {
+      await this.orm.executor.query({
+        query:
+          kind === "commit" ? "COMMIT TRANSACTION" : "ROLLBACK TRANSACTION",
+        connectionProperties,
+      });
+    } finally {
+      this.finished = kind;
+      // Sessions otherwise linger for 24h; closing them is best effort.
+      await this.orm.executor
+        .query({ query: "CALL BQ.ABORT_SESSION()", connectionProperties })
+        .catch(() => undefined);
+    }
+  }
+}
+
+export interface TransactionOptions {
+  transaction?: Transaction;
+}
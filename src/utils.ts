@@ -1,94 +1,360 @@
-import { DataType } from "./dataTypes";
+import { TableField } from "@google-cloud/bigquery";
+import { AttributeDefinition, AttributeType, DataType } from "./dataTypes";
+import {
+  Literal,
+  isExpression,
+  quoteColumn,
+  renderExpression,
+} from "./expressions";
 import { Op, Operator } from "./op";
 
-export function dataTypeToSchemaField(name: string, dataType: DataType): any {
-  if (typeof dataType === "string") {
-    return { name, type: dataType };
+export function isAttributeDefinition(
+  attribute: AttributeType
+): attribute is AttributeDefinition {
+  if (typeof attribute === "string") return false;
+  if (attribute.type === "ARRAY" && "items" in attribute) return false;
+  if (attribute.type === "STRUCT" && "fields" in attribute) return false;
+  return true;
+}
+
+export function normalizeAttribute(
+  attribute: AttributeType
+): AttributeDefinition {
+  return isAttributeDefinition(attribute) ? attribute : { type: attribute };
+}
+
+export function toSqlLiteral(value: any): string {
+  if (value === null) return "NULL";
+  if (typeof value === "string") {
+    return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
   }
-  if (dataType.type === "ARRAY") {
-    return {
-      name,
-      type: "ARRAY",
+  if (typeof value === "number" || typeof value === "bigint") {
+    return String(value);
+  }
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (value instanceof Date) return `TIMESTAMP '${value.toISOString()}'`;
+  if (Array.isArray(value)) return `[${value.map(toSqlLiteral).join(", ")}]`;
+  throw new Error(`Cannot convert ${JSON.stringify(value)} to a SQL literal`);
+}
+
+export function defaultValueExpression(defaultValue: any): string | undefined {
+  // Function defaults are evaluated in JS by Model.create only.
+  if (defaultValue === undefined || typeof defaultValue === "function") {
+    return undefined;
+  }
+  if (defaultValue instanceof Literal) return defaultValue.sql;
+  return toSqlLiteral(defaultValue);
+}
+
+export function dataTypeToSchemaField(
+  name: string,
+  attribute: AttributeType
+): any {
+  const { type: dataType, ...definition } = normalizeAttribute(attribute);
+  let field: any;
+  if (typeof dataType === "string") {
+    field = { name, type: dataType };
+  } else if (dataType.type === "ARRAY") {
+    // BigQuery models arrays as a REPEATED field of the element type.
+    field = {
+      ...dataTypeToSchemaField(name, dataType.items),
       mode: "REPEATED",
-      fields: [dataTypeToSchemaField("element", dataType.items)],
     };
-  }
-  if (dataType.type === "STRUCT") {
-    return {
+  } else if (dataType.type === "STRUCT") {
+    field = {
       name,
       type: "STRUCT",
       fields: Object.entries(dataType.fields).map(([fieldName, fieldType]) =>
         dataTypeToSchemaField(fieldName, fieldType)
       ),
     };
+  } else {
+    throw new Error(`Unsupported data type: ${JSON.stringify(dataType)}`);
+  }
+  if (definition.allowNull === false && field.mode !== "REPEATED") {
+    field.mode = "REQUIRED";
   }
-  throw new Error(`Unsupported data type: ${JSON.stringify(dataType)}`);
+  if (definition.description) field.description = definition.description;
+  if (definition.maxLength !== undefined)
+    field.maxLength = String(definition.maxLength);
+  if (definition.precision !== undefined)
+    field.precision = String(definition.precision);
+  if (definition.scale !== undefined) field.scale = String(definition.scale);
+  const defaultExpression = defaultValueExpression(definition.defaultValue);
+  if (defaultExpression !== undefined)
+    field.defaultValueExpression = defaultExpression;
+  return field;
 }
 
-export function buildWhereClause(
-  where: any,
-  params: Record<string, any> = {},
-  paramIndex = 0
-): { clause: string; params: Record<string, any>; nextIndex: number } {
-  if (!where) return { clause: "", params: {}, nextIndex: paramIndex };
-
-  const clauses: string[] = [];
-  const localParams: Record<string, any> = {};
-
-  for (const [key, value] of Object.entries(where)) {
-    if (key === "and" || key === "or") {
-      const subResults = (value as any[]).reduce(
-        (acc, subCondition) => {
-          const {
-            clause,
-            params: subParams,
-            nextIndex,
-          } = buildWhereClause(subCondition, acc.paramsAcc, acc.indexAcc);
-          return {
-            clauseAcc: [...acc.clauseAcc, `(${clause})`],
-            paramsAcc: { ...acc.paramsAcc, ...subParams },
-            indexAcc: nextIndex,
-          };
-        },
-        {
-          clauseAcc: [] as string[],
-          paramsAcc: {} as Record<string, any>,
-          indexAcc: paramIndex,
+export function schemaFieldToAttribute(field: TableField): AttributeType {
+  const typeName = (field.type || "STRING").toUpperCase();
+  let type: DataType =
+    typeName === "RECORD" || typeName === "STRUCT"
+      ? {
+          type: "STRUCT",
+          fields: Object.fromEntries(
+            (field.fields || []).map((f) => [
+              f.name!,
+              schemaFieldToAttribute(f),
+            ])
+          ),
         }
+      : (typeName as DataType);
+  if (field.mode === "REPEATED") type = { type: "ARRAY", items: type };
+  const definition: AttributeDefinition = { type };
+  if (field.mode === "REQUIRED") definition.allowNull = false;
+  if (field.description) definition.description = field.description;
+  if (field.maxLength) definition.maxLength = Number(field.maxLength);
+  if (field.precision) definition.precision = Number(field.precision);
+  if (field.scale) definition.scale = Number(field.scale);
+  if (field.defaultValueExpression)
+    definition.defaultValue = new Literal(field.defaultValueExpression);
+  return Object.keys(definition).length === 1 ? type : definition;
+}
+
+export function toLoadValue(value: any, dataType: DataType): any {
+  if (value === undefined || value === null) return null;
+  if (typeof dataType !== "string") {
+    if (dataType.type === "ARRAY" && Array.isArray(value)) {
+      return value.map((item) =>
+        toLoadValue(item, normalizeAttribute(dataType.items).type)
       );
-      clauses.push(subResults.clauseAcc.join(` ${Op[key as Operator]} `));
-      Object.assign(localParams, subResults.paramsAcc);
-      paramIndex = subResults.indexAcc;
-    } else if (Array.isArray(value)) {
-      const paramNames = value
-        .map((v) => {
-          const paramName = `param${paramIndex++}`;
-          localParams[paramName] = v;
-          return `@${paramName}`;
+    }
+    if (dataType.type === "STRUCT" && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => {
+          const fieldType = dataType.fields[key];
+          return [
+            key,
+            fieldType
+              ? toLoadValue(item, normalizeAttribute(fieldType).type)
+              : item,
+          ];
         })
-        .join(", ");
-      clauses.push(`\`${key}\` IN (${paramNames})`);
-    } else if (
-      typeof value === "object" &&
-      value !== null &&
-      !Array.isArray(value)
-    ) {
-      const opKey = Object.keys(value)[0] as Operator;
-      const opVal = value[opKey as keyof typeof value];
-      const sqlOp = Op[opKey] || "=";
-      const paramName = `param${paramIndex++}`;
-      clauses.push(`\`${key}\` ${sqlOp} @${paramName}`);
-      localParams[paramName] = opVal;
-    } else {
-      const paramName = `param${paramIndex++}`;
-      clauses.push(`\`${key}\` = @${paramName}`);
-      localParams[paramName] = value;
+      );
     }
+    return value;
   }
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    if (dataType === "DATE") return iso.slice(0, 10);
+    if (dataType === "DATETIME") return iso.slice(0, -1);
+    return iso;
+  }
+  if (Buffer.isBuffer(value)) return value.toString("base64");
+  if (typeof value === "bigint") return value.toString();
+  // BigQueryTimestamp, BigQueryDate, Big, ... wrappers
+  if (typeof value === "object" && typeof value.value === "string") {
+    return value.value;
+  }
+  return value;
+}
+
+export function dataTypeToParamType(dataType: DataType): any {
+  if (typeof dataType === "string") {
+    if (dataType === "BOOLEAN") return "BOOL";
+    // The client library cannot describe INTERVAL params.
+    if (dataType === "INTERVAL") return undefined;
+    return dataType;
+  }
+  if (dataType.type === "ARRAY") {
+    const items = dataTypeToParamType(dataType.items);
+    return items === undefined ? undefined : [items];
+  }
+  if (dataType.type === "STRUCT") {
+    const fields: Record<string, any> = {};
+    for (const [fieldName, fieldType] of Object.entries(dataType.fields)) {
+      const type = dataTypeToParamType(normalizeAttribute(fieldType).type);
+      if (type === undefined) return undefined;
+      fields[fieldName] = type;
+    }
+    return fields;
+  }
+  return undefined;
+}
+
+interface WhereContext {
+  params: Record<string, any>;
+  index: number;
+  resolveColumn: (column: string) => string;
+}
+
+const LOGICAL_OPERATORS: Operator[] = ["and", "or", "not"];
+
+function resolveOperator(key: string): Operator | undefined {
+  if (key in Op) return key as Operator;
+  return (Object.keys(Op) as Operator[]).find((name) => Op[name] === key);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  if (value === null || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function bindParam(ctx: WhereContext, value: any): string {
+  const paramName = `param${ctx.index++}`;
+  ctx.params[paramName] = value;
+  return `@${paramName}`;
+}
+
+function operand(ctx: WhereContext, value: any): string {
+  return isExpression(value)
+    ? renderExpression(value, ctx.resolveColumn, (v) => bindParam(ctx, v))
+    : bindParam(ctx, value);
+}
+
+function compileLogical(
+  ctx: WhereContext,
+  op: Operator,
+  value: any,
+  compileItem: (ctx: WhereContext, item: any) => string
+): string {
+  if (op === "not") {
+    const inner = compileItem(ctx, value);
+    return inner ? `NOT (${inner})` : "";
+  }
+  const items = Array.isArray(value)
+    ? value
+    : Object.entries(value).map(([k, v]) => ({ [k]: v }));
+  const parts = items
+    .map((item) => compileItem(ctx, item))
+    .filter((part) => part);
+  if (!parts.length) return op === "or" ? "FALSE" : "";
+  return `(${parts.map((part) => `(${part})`).join(` ${Op[op]} `)})`;
+}
+
+function compileOperator(
+  ctx: WhereContext,
+  column: string,
+  op: Operator,
+  value: any
+): string {
+  const field = ctx.resolveColumn(column);
+  switch (op) {
+    case "eq":
+      return value === null
+        ? `${field} IS NULL`
+        : `${field} = ${operand(ctx, value)}`;
+    case "ne":
+      return value === null
+        ? `${field} IS NOT NULL`
+        : `${field} != ${operand(ctx, value)}`;
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte":
+    case "like":
+    case "notLike":
+      return `${field} ${Op[op]} ${operand(ctx, value)}`;
+    case "iLike":
+      return `LOWER(${field}) LIKE LOWER(${operand(ctx, value)})`;
+    case "notILike":
+      return `LOWER(${field}) NOT LIKE LOWER(${operand(ctx, value)})`;
+    case "startsWith":
+    case "endsWith":
+      return `${Op[op]}(${field}, ${operand(ctx, value)})`;
+    case "regexp":
+      return `REGEXP_CONTAINS(${field}, ${operand(ctx, value)})`;
+    case "notRegexp":
+      return `NOT REGEXP_CONTAINS(${field}, ${operand(ctx, value)})`;
+    case "in":
+    case "notIn":
+    case "any":
+    case "contained": {
+      const values = Array.isArray(value) ? value : [value];
+      const negate = op === "notIn";
+      // `IN @p` is invalid in BigQuery; arrays must be unnested.
+      if (!values.length) return negate ? "TRUE" : "FALSE";
+      return `${field} ${negate ? "NOT IN" : "IN"} UNNEST(${bindParam(
+        ctx,
+        values
+      )})`;
+    }
+    case "contains":
+      return `${operand(ctx, value)} IN UNNEST(${field})`;
+    case "between":
+    case "notBetween": {
+      if (!Array.isArray(value) || value.length !== 2) {
+        throw new Error(
+          `${Op[op]} on ${column} expects an array of two values`
+        );
+      }
+      return `${field} ${Op[op]} ${operand(ctx, value[0])} AND ${operand(
+        ctx,
+        value[1]
+      )}`;
+    }
+    case "is":
+    case "isNot": {
+      const keyword = op === "is" ? "IS" : "IS NOT";
+      if (value === null) return `${field} ${keyword} NULL`;
+      if (typeof value === "boolean")
+        return `${field} ${keyword} ${value ? "TRUE" : "FALSE"}`;
+      throw new Error(`${Op[op]} on ${column} only accepts null or a boolean`);
+    }
+    case "and":
+    case "or":
+    case "not":
+      if (op === "not" && !isPlainObject(value)) {
+        return compileOperator(ctx, column, "ne", value);
+      }
+      return compileLogical(ctx, op, value, (c, item) =>
+        compileColumn(c, column, item)
+      );
+    default:
+      throw new Error(`Operator ${op} is not supported in where clauses`);
+  }
+}
+
+function compileColumn(ctx: WhereContext, column: string, value: any): string {
+  if (Array.isArray(value)) {
+    return compileOperator(ctx, column, "in", value);
+  }
+  if (!isPlainObject(value)) {
+    return compileOperator(ctx, column, "eq", value);
+  }
+  const parts = Object.entries(value).map(([key, opValue]) => {
+    const op = resolveOperator(key);
+    if (!op) throw new Error(`Unknown operator "${key}" on ${column}`);
+    return compileOperator(ctx, column, op, opValue);
+  });
+  return parts.length > 1 ? parts.join(" AND ") : parts[0] || "";
+}
+
+function compileWhere(ctx: WhereContext, where: any): string {
+  if (!where) return "";
+  if (Array.isArray(where)) {
+    return compileLogical(ctx, "and", where, compileWhere);
+  }
+  const clauses: string[] = [];
+  for (const [key, value] of Object.entries(where)) {
+    const op = resolveOperator(key);
+    const clause =
+      op && LOGICAL_OPERATORS.includes(op)
+        ? compileLogical(ctx, op, value, compileWhere)
+        : compileColumn(ctx, key, value);
+    if (clause) clauses.push(clause);
+  }
+  return clauses.join(" AND ");
+}
+
+export function buildWhereClause(
+  where: any,
+  params: Record<string, any> = {},
+  paramIndex = 0,
+  alias?: string | ((column: string) => string)
+): { clause: string; params: Record<string, any>; nextIndex: number } {
+  if (!where) return { clause: "", params: {}, nextIndex: paramIndex };
 
-  return {
-    clause: clauses.join(" AND "),
-    params: localParams,
-    nextIndex: paramIndex,
+  const ctx: WhereContext = {
+    params: {},
+    index: paramIndex,
+    resolveColumn:
+      typeof alias === "function"
+        ? alias
+        : (column) => quoteColumn(column, alias),
   };
+  const clause = compileWhere(ctx, where);
+  return { clause, params: ctx.params, nextIndex: ctx.index };
 }
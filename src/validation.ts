@@ -0,0 +1,271 @@
+import {
+  AttributeDefinition,
+  AttributeType,
+  AttributeValidators,
+  DataType,
+} from "./dataTypes";
+import { ValidationError, ValidationErrorItem } from "./errors";
+import { normalizeAttribute } from "./utils";
+
+export type ModelValidator = (
+  row: Record<string, any>
+) => void | boolean | Promise<void | boolean>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const INTEGER_PATTERN = /^-?\d+$/;
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/;
+
+function isPlainObject(value: any): boolean {
+  if (value === null || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// BigQuery client wrappers (BigQueryTimestamp, BigQueryDate, ...) carry a string `value`.
+function isWrappedValue(value: any): boolean {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof value.value === "string"
+  );
+}
+
+function typeError(dataType: DataType, value: any): string | null {
+  if (typeof dataType !== "string") return null;
+  switch (dataType) {
+    case "STRING":
+      return typeof value === "string" ? null : "must be a string";
+    case "BYTES":
+      return typeof value === "string" || Buffer.isBuffer(value)
+        ? null
+        : "must be a Buffer or base64 string";
+    case "INTEGER":
+    case "INT64":
+      return Number.isInteger(value) ||
+        typeof value === "bigint" ||
+        (typeof value === "string" && INTEGER_PATTERN.test(value)) ||
+        isWrappedValue(value)
+        ? null
+        : "must be an integer";
+    case "FLOAT":
+    case "FLOAT64":
+      return typeof value === "number" ||
+        (typeof value === "string" && DECIMAL_PATTERN.test(value))
+        ? null
+        : "must be a number";
+    case "NUMERIC":
+    case "BIGNUMERIC":
+      return (typeof value === "number" && Number.isFinite(value)) ||
+        typeof value === "bigint" ||
+        (typeof value === "string" && DECIMAL_PATTERN.test(value)) ||
+        (typeof value === "object" && typeof value.toFixed === "function")
+        ? null
+        : "must be a numeric value";
+    case "BOOLEAN":
+    case "BOOL":
+      return typeof value === "boolean" ? null : "must be a boolean";
+    case "TIMESTAMP":
+    case "DATETIME":
+    case "DATE":
+      return (value instanceof Date && !isNaN(value.getTime())) ||
+        typeof value === "string" ||
+        isWrappedValue(value)
+        ? null
+        : "must be a Date or date string";
+    case "TIME":
+    case "INTERVAL":
+    case "GEOGRAPHY":
+      return typeof value === "string" || isWrappedValue(value)
+        ? null
+        : "must be a string";
+    case "JSON":
+      return typeof value === "function" ? "must be JSON-serializable" : null;
+    default:
+      return null;
+  }
+}
+
+type Reporter = (
+  field: string | null,
+  validator: string,
+  message: string,
+  value?: any
+) => void;
+
+async function runAttributeValidators(
+  validators: AttributeValidators,
+  value: any,
+  row: Record<string, any>,
+  report: (validator: string, message: string) => void
+): Promise<void> {
+  for (const [name, rule] of Object.entries(validators)) {
+    if (rule === undefined || rule === false) continue;
+    switch (name) {
+      case "isEmail":
+        if (typeof value !== "string" || !EMAIL_PATTERN.test(value))
+          report(name, "must be a valid email address");
+        break;
+      case "len": {
+        const [min, max] = rule as [number, number];
+        const length = value?.length;
+        if (typeof length !== "number" || length < min || length > max)
+          report(name, `length must be between ${min} and ${max}`);
+        break;
+      }
+      case "min":
+        if (Number(value) < rule) report(name, `must be at least ${rule}`);
+        break;
+      case "max":
+        if (Number(value) > rule) report(name, `must be at most ${rule}`);
+        break;
+      case "isIn":
+        if (!(rule as any[]).includes(value))
+          report(name, `must be one of ${JSON.stringify(rule)}`);
+        break;
+      case "is": {
+        const pattern = rule instanceof RegExp ? rule : new RegExp(rule);
+        if (typeof value !== "string" || !pattern.test(value))
+          report(name, `must match ${pattern}`);
+        break;
+      }
+      default:
+        if (typeof rule === "function") {
+          try {
+            if ((await rule(value, row)) === false)
+              report(name, `failed ${name} validation`);
+          } catch (err: any) {
+            report(name, err.message);
+          }
+        }
+    }
+  }
+}
+
+async function validateValue(
+  attribute: AttributeType,
+  value: any,
+  path: string,
+  row: Record<string, any>,
+  report: Reporter
+): Promise<void> {
+  const definition: AttributeDefinition = normalizeAttribute(attribute);
+  const dataType = definition.type;
+  if (value === undefined || value === null) {
+    // Missing values with a default are filled in by BigQuery.
+    const filledByDefault =
+      value === undefined && definition.defaultValue !== undefined;
+    if (definition.allowNull === false && !filledByDefault)
+      report(path, "allowNull", "is required", value);
+    return;
+  }
+
+  if (typeof dataType !== "string" && dataType.type === "ARRAY") {
+    if (!Array.isArray(value)) {
+      report(path, "type", "must be an array", value);
+      return;
+    }
+    for (let i = 0; i < value.length; i++) {
+      if (value[i] === null || value[i] === undefined) {
+        report(`${path}[${i}]`, "type", "arrays cannot contain null", value[i]);
+        continue;
+      }
+      await validateValue(
+        dataType.items,
+        value[i],
+        `${path}[${i}]`,
+        row,
+        report
+      );
+    }
+  } else if (typeof dataType !== "string" && dataType.type === "STRUCT") {
+    if (!isPlainObject(value)) {
+      report(path, "type", "must be an object", value);
+      return;
+    }
+    for (const key of Object.keys(value)) {
+      if (!(key in dataType.fields))
+        report(
+          `${path}.${key}`,
+          "unknownField",
+          "is not a field of the struct",
+          value[key]
+        );
+    }
+    for (const [fieldName, fieldType] of Object.entries(dataType.fields)) {
+      await validateValue(
+        fieldType,
+        value[fieldName],
+        `${path}.${fieldName}`,
+        row,
+        report
+      );
+    }
+  } else {
+    const message = typeError(dataType, value);
+    if (message) {
+      report(path, "type", message, value);
+      return;
+    }
+    if (
+      definition.maxLength !== undefined &&
+      typeof value === "string" &&
+      value.length > definition.maxLength
+    ) {
+      report(
+        path,
+        "maxLength",
+        `must be at most ${definition.maxLength} characters`,
+        value
+      );
+    }
+  }
+
+  if (definition.validate) {
+    await runAttributeValidators(
+      definition.validate,
+      value,
+      row,
+      (validator, message) => report(path, validator, message, value)
+    );
+  }
+}
+
+export async function validateRows(
+  attributes: Record<string, AttributeDefinition>,
+  modelValidators: Record<string, ModelValidator>,
+  rows: Record<string, any>[],
+  options: { partial?: boolean } = {}
+): Promise<void> {
+  const errors: ValidationErrorItem[] = [];
+  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+    const row = rows[rowIndex];
+    const report: Reporter = (field, validator, message, value) =>
+      errors.push({ rowIndex, field, validator, message, value });
+
+    for (const key of Object.keys(row)) {
+      if (!(key in attributes))
+        report(
+          key,
+          "unknownField",
+          "is not an attribute of the model",
+          row[key]
+        );
+    }
+    for (const [name, attribute] of Object.entries(attributes)) {
+      // Partial updates only touch the columns they set.
+      if (options.partial && !(name in row)) continue;
+      await validateValue(attribute, row[name], name, row, report);
+    }
+    if (!options.partial) {
+      for (const [name, validator] of Object.entries(modelValidators)) {
+        try {
+          if ((await validator(row)) === false)
+            report(null, name, `failed ${name} validation`);
+        } catch (err: any) {
+          report(null, name, err.message);
+        }
+      }
+    }
+  }
+  if (errors.length) throw new ValidationError(errors);
+}
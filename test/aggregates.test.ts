@@ -0,0 +1,51 @@
+import { Op, col, fn, literal } from "../src";
+import { defineUser, setup } from "./helpers";
+
+describe("aggregates", () => {
+  it("runs sum, min, max and avg with the given where", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(/SUM/, [{ result: "12" }]);
+    executor.respond(/AVG/, [{ result: null }]);
+    expect(await User.sum("score", { where: { name: "ada" } })).toBe(12);
+    expect(await User.avg("score")).toBeNull();
+    expect(await User.min("score")).toBeNull();
+    expect(executor.statements[0]).toBe(
+      "SELECT SUM(`users`.`score`) AS result FROM `test.users` AS `users` WHERE `users`.`name` = @param0"
+    );
+    expect(executor.statements[2]).toMatch(/^SELECT MIN\(`users`\.`score`\)/);
+  });
+
+  it("returns 0 for an empty sum", async () => {
+    const { orm } = setup();
+    const User = defineUser(orm);
+    expect(await User.sum("score")).toBe(0);
+  });
+
+  it("groups with fn, col, literal and having", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(/GROUP BY/, [
+      { users_name: "ada", users_total: 9, users_orders: 2 },
+    ]);
+    const rows = await User.findAll({
+      attributes: [
+        "name",
+        [fn("SUM", col("score")), "total"],
+        [fn("COUNT", literal("*")), "orders"],
+      ],
+      where: { score: { [Op.gt]: 0 } },
+      group: ["name"],
+      having: { total: { [Op.gt]: 5 } },
+      order: [["total", "DESC"]],
+    });
+    expect(rows.map((row) => row.toJSON())).toEqual([
+      { name: "ada", total: 9, orders: 2 },
+    ]);
+    const { sql, params } = executor.queries[0];
+    expect(sql).toBe(
+      "SELECT `users`.`name` AS `users_name`, SUM(`users`.`score`) AS `users_total`, COUNT(*) AS `users_orders` FROM `test.users` AS `users` WHERE `users`.`score` > @param0 GROUP BY `users`.`name` HAVING `users_total` > @param1 ORDER BY `users_total` DESC"
+    );
+    expect(params).toEqual({ param0: 0, param1: 5 });
+  });
+});
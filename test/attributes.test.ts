@@ -0,0 +1,108 @@
+import { DataTypes, dataTypeToSchemaField, literal } from "../src";
+import { setup, silenceConsole } from "./helpers";
+
+describe("attribute definitions", () => {
+  silenceConsole();
+
+  it("map to BigQuery schema fields", () => {
+    expect(
+      dataTypeToSchemaField("id", { type: DataTypes.INTEGER, allowNull: false })
+    ).toEqual({ name: "id", type: "INTEGER", mode: "REQUIRED" });
+    expect(
+      dataTypeToSchemaField("name", {
+        type: DataTypes.STRING,
+        maxLength: 100,
+        description: "Display name",
+        defaultValue: "anon",
+      })
+    ).toEqual({
+      name: "name",
+      type: "STRING",
+      maxLength: "100",
+      description: "Display name",
+      defaultValueExpression: "'anon'",
+    });
+    expect(
+      dataTypeToSchemaField("balance", {
+        type: DataTypes.NUMERIC,
+        precision: 12,
+        scale: 2,
+      })
+    ).toEqual({
+      name: "balance",
+      type: "NUMERIC",
+      precision: "12",
+      scale: "2",
+    });
+    expect(
+      dataTypeToSchemaField("at", {
+        type: DataTypes.TIMESTAMP,
+        defaultValue: literal("CURRENT_TIMESTAMP()"),
+      }).defaultValueExpression
+    ).toBe("CURRENT_TIMESTAMP()");
+  });
+
+  it("map arrays to REPEATED fields even when required", () => {
+    expect(
+      dataTypeToSchemaField("tags", {
+        type: { type: "ARRAY", items: DataTypes.STRING },
+        allowNull: false,
+      })
+    ).toEqual({ name: "tags", type: "STRING", mode: "REPEATED" });
+  });
+
+  it("are used by sync", async () => {
+    const { orm, executor } = setup();
+    orm.define(
+      "Account",
+      {
+        id: { type: DataTypes.INTEGER, allowNull: false },
+        token: { type: DataTypes.STRING, defaultValue: () => "generated" },
+      },
+      { tableName: "accounts" }
+    );
+    await orm.sync();
+    expect(executor.tables.get("accounts")!.schema).toEqual({
+      fields: [
+        { name: "id", type: "INTEGER", mode: "REQUIRED" },
+        { name: "token", type: "STRING" },
+      ],
+    });
+  });
+
+  it("apply JS defaults on create but leave literals to BigQuery", async () => {
+    const { orm, executor } = setup();
+    const Account = orm.define(
+      "Account",
+      {
+        id: DataTypes.INTEGER,
+        status: { type: DataTypes.STRING, defaultValue: "active" },
+        token: { type: DataTypes.STRING, defaultValue: () => "generated" },
+        at: {
+          type: DataTypes.TIMESTAMP,
+          defaultValue: literal("CURRENT_TIMESTAMP()"),
+        },
+      },
+      { tableName: "accounts" }
+    );
+    await Account.create({ id: 1 });
+    expect(executor.inserts[0].rows).toEqual([
+      { id: 1, status: "active", token: "generated" },
+    ]);
+  });
+
+  it("add REQUIRED columns as NULLABLE with a warning", async () => {
+    const { orm, executor } = setup();
+    await orm.getQueryInterface().addColumn("accounts", "note", {
+      type: DataTypes.STRING,
+      allowNull: false,
+      description: "Free text",
+    });
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("note will be NULLABLE")
+    );
+    expect(executor.statements[0]).toMatch(
+      /^ALTER TABLE `test\.test\.accounts` ADD COLUMN `note` STRING/
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import * as fs from "fs";
+import { DataTypes, MemoryExecutor, loadJsonRows } from "../src";
+import { defineUser, setup } from "./helpers";
+
+describe("Model.bulkCreate", () => {
+  it("streams rows by default", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    await User.bulkCreate([{ id: 1 }, { id: 2 }]);
+    expect(executor.inserts).toEqual([
+      { tableName: "users", rows: [{ id: 1 }, { id: 2 }] },
+    ]);
+  });
+
+  it("writes NDJSON and submits a load job with method: load", async () => {
+    const { orm, executor } = setup({ freeTierMode: true });
+    const Event = orm.define(
+      "Event",
+      {
+        id: DataTypes.INTEGER,
+        at: DataTypes.TIMESTAMP,
+        day: DataTypes.DATE,
+        tags: { type: { type: "ARRAY", items: DataTypes.STRING } },
+      },
+      { tableName: "events" }
+    );
+    const at = new Date("2024-05-01T12:00:00.000Z");
+    await Event.bulkCreate(
+      [
+        { id: 1, at, day: at, tags: ["a"] },
+        { id: 2, tags: null },
+      ],
+      { method: "load" }
+    );
+
+    expect(executor.inserts).toEqual([]);
+    const [load] = executor.loads;
+    expect(load.tableName).toBe("events");
+    expect(load.metadata).toEqual({
+      sourceFormat: "NEWLINE_DELIMITED_JSON",
+      writeDisposition: "WRITE_APPEND",
+      schema: {
+        fields: [
+          { name: "id", type: "INTEGER" },
+          { name: "at", type: "TIMESTAMP" },
+          { name: "day", type: "DATE" },
+          { name: "tags", type: "STRING", mode: "REPEATED" },
+        ],
+      },
+    });
+    const rows = load.contents
+      .toString()
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(rows).toEqual([
+      { id: 1, at: "2024-05-01T12:00:00.000Z", day: "2024-05-01", tags: ["a"] },
+      { id: 2, tags: null },
+    ]);
+    // The temporary file is removed once the job is done.
+    expect(fs.existsSync(load.filePath)).toBe(false);
+  });
+
+  it("refuses load jobs inside a transaction", async () => {
+    const { orm } = setup();
+    const User = defineUser(orm);
+    await expect(
+      orm.transaction((t) =>
+        User.bulkCreate([{ id: 1 }], { method: "load", transaction: t })
+      )
+    ).rejects.toThrow("Load jobs cannot run inside a transaction");
+  });
+
+  it("refuses streaming inserts in free tier mode", async () => {
+    const { orm } = setup({ freeTierMode: true });
+    const User = defineUser(orm);
+    await expect(User.bulkCreate([{ id: 1 }])).rejects.toThrow(
+      "Free tier mode: BULK CREATE (INSERT) not allowed"
+    );
+  });
+});
+
+describe("loadJsonRows", () => {
+  it("removes the temporary file when the load job fails", async () => {
+    const executor = new MemoryExecutor();
+    let filePath = "";
+    jest.spyOn(executor, "load").mockImplementation(async (_, file) => {
+      filePath = file;
+      throw new Error("Invalid schema update");
+    });
+    await expect(
+      loadJsonRows(executor, "users", [{ id: 1 }], {
+        writeDisposition: "WRITE_APPEND",
+      })
+    ).rejects.toThrow("Invalid schema update");
+    expect(filePath).toMatch(/users\.ndjson$/);
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+});
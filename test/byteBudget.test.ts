@@ -0,0 +1,68 @@
+import { QueryBudgetExceededError } from "../src";
+import { defineUser, setup, silenceConsole } from "./helpers";
+
+const GB = 1024 ** 3;
+
+function estimate(bytes: number) {
+  return {
+    rows: [{ count: 1 }],
+    metadata: { statistics: { totalBytesProcessed: String(bytes) } },
+  };
+}
+
+describe("byte budget", () => {
+  silenceConsole();
+
+  it("defaults to 10 GB per query in free tier mode", async () => {
+    const { orm, executor } = setup({ freeTierMode: true });
+    const User = defineUser(orm);
+    expect(orm.config.maximumBytesBilled).toBe(10 * GB);
+
+    executor.respond(/COUNT/, estimate(GB));
+    await User.count();
+    const [dryRun, query] = executor.queries;
+    expect(dryRun.request.dryRun).toBe(true);
+    expect(query.request.maximumBytesBilled).toBe(String(10 * GB));
+
+    executor.respond(/COUNT/, estimate(20 * GB));
+    await expect(User.count()).rejects.toBeInstanceOf(QueryBudgetExceededError);
+  });
+
+  it("has no default budget outside free tier mode", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    await User.count();
+    expect(executor.queries).toHaveLength(1);
+    expect(executor.queries[0].request.maximumBytesBilled).toBeUndefined();
+  });
+
+  it("can be disabled in free tier mode with null", async () => {
+    const { orm, executor } = setup({
+      freeTierMode: true,
+      maximumBytesBilled: null,
+    });
+    const User = defineUser(orm);
+    await User.count();
+    expect(executor.queries).toHaveLength(1);
+  });
+
+  it("takes a per-call budget over the configured one", async () => {
+    const { orm, executor } = setup({ maximumBytesBilled: GB });
+    const User = defineUser(orm);
+    executor.respond(/COUNT/, estimate(2 * GB));
+    await expect(User.count()).rejects.toThrow("exceeding");
+    await User.count({ maximumBytesBilled: 4 * GB });
+    expect(executor.queries.pop()!.request.maximumBytesBilled).toBe(
+      String(4 * GB)
+    );
+  });
+
+  it("reports the estimate from dryRun", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(/COUNT/, estimate(123));
+    expect(await User.count({ dryRun: true })).toEqual({
+      totalBytesProcessed: 123,
+    });
+  });
+});
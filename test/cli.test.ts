@@ -0,0 +1,112 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { run } from "../src/cli";
+import { silenceConsole } from "./helpers";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "bq-orm-cli-"));
+  fs.mkdirSync(path.join(dir, "seeders"));
+  for (const name of ["01-users", "02-posts"]) {
+    fs.writeFileSync(
+      path.join(dir, "seeders", `${name}.js`),
+      "module.exports = { up: async () => {}, down: async () => {} };"
+    );
+  }
+  const executor = JSON.stringify(path.resolve(__dirname, "../src/executor"));
+  fs.writeFileSync(
+    path.join(dir, "bqorm.config.js"),
+    `const { MemoryExecutor } = require(${executor});
+module.exports = {
+  projectId: "test",
+  dataset: "test",
+  executor: new MemoryExecutor(),
+  seederStorage: { file: "seeders.json" },
+};`
+  );
+});
+
+afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function cli(...argv: string[]) {
+  return run([
+    ...argv,
+    "--config",
+    path.join(dir, "bqorm.config.js"),
+    "--seeders",
+    path.join(dir, "seeders"),
+  ]);
+}
+
+function logged(): string[] {
+  return (console.log as jest.Mock).mock.calls.map((call) => call[0]);
+}
+
+describe("cli", () => {
+  silenceConsole();
+
+  it("runs all pending seeders, or only the named ones", async () => {
+    await cli("seed", "01-users");
+    expect(logged()).toEqual(["Seeded 01-users"]);
+    await cli("seed");
+    expect(logged()).toEqual(["Seeded 01-users", "Seeded 02-posts"]);
+  });
+
+  it("resolves the seeder storage file relative to the config", async () => {
+    const cwd = process.cwd();
+    process.chdir(os.tmpdir());
+    try {
+      await cli("seed", "01-users");
+    } finally {
+      process.chdir(cwd);
+    }
+    expect(fs.existsSync(path.join(dir, "seeders.json"))).toBe(true);
+    await cli("seed");
+    expect(logged()).toEqual(["Seeded 01-users", "Seeded 02-posts"]);
+  });
+
+  it("plans db:sync changes with --dry-run", async () => {
+    fs.mkdirSync(path.join(dir, "models"));
+    fs.writeFileSync(
+      path.join(dir, "models", "user.js"),
+      `module.exports = (orm, DataTypes) =>
+  orm.define("User", { id: DataTypes.INTEGER }, { tableName: "users" });`
+    );
+    await cli("db:sync", "--dry-run", "--models", path.join(dir, "models"));
+    expect(logged()).toEqual(["plan  users: Create table users"]);
+  });
+
+  it("rejects flags the command does not support", async () => {
+    await expect(cli("seed", "--dry-run", "02-posts")).rejects.toThrow(
+      "seed does not support --dry-run"
+    );
+    await expect(cli("migrate:undo", "--force")).rejects.toThrow(
+      "migrate:undo does not support --force"
+    );
+    expect(logged()).toEqual([]);
+  });
+
+  it("requires --step to be a positive integer", async () => {
+    for (const step of ["abc", "0", "1.5"]) {
+      await expect(cli("migrate", "--step", step)).rejects.toThrow(
+        "--step must be a positive integer"
+      );
+    }
+    await expect(cli("migrate", "--step")).rejects.toThrow(
+      "--step must be a positive integer"
+    );
+  });
+
+  it("prints usage for --help", async () => {
+    await run(["migrate", "--help"]);
+    expect(logged()[0]).toMatch(/^Usage: bq-orm <command>/);
+  });
+
+  it("rejects unknown commands", async () => {
+    await expect(cli("frobnicate")).rejects.toThrow(
+      "Unknown command: frobnicate"
+    );
+  });
+});
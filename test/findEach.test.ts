@@ -0,0 +1,88 @@
+import { definePost, defineUser, setup } from "./helpers";
+
+const row = (id: number, postId: number | null) => ({
+  users_id: id,
+  users_name: `user${id}`,
+  users_score: null,
+  posts_id: postId,
+  posts_title: postId && `post${postId}`,
+  posts_userId: postId && id,
+});
+
+async function collect(iterable: AsyncIterable<any>) {
+  const items: any[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe("Model.findEach", () => {
+  it("yields instances page by page", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(/^SELECT/, [
+      { users_id: 1, users_name: "a", users_score: 1 },
+      { users_id: 2, users_name: "b", users_score: 2 },
+      { users_id: 3, users_name: "c", users_score: 3 },
+    ]);
+    const pages = jest.spyOn(executor, "queryPages");
+    const users = await collect(User.findEach({ pageSize: 2 }));
+    expect(users.map((u) => u.name)).toEqual(["a", "b", "c"]);
+    expect(users[0]).toBeInstanceOf(User);
+    expect(pages).toHaveBeenCalledWith(expect.anything(), 2);
+  });
+
+  it("runs afterFind on each page before yielding it", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(/^SELECT/, [
+      { users_id: 1, users_name: "a", users_score: 1 },
+      { users_id: 2, users_name: "b", users_score: 2 },
+      { users_id: 3, users_name: "c", users_score: 3 },
+    ]);
+    const pages: number[][] = [];
+    User.addHook("afterFind", (results: any[]) => {
+      pages.push(results.map((user) => user.id));
+      for (const user of results) user.name = user.name.toUpperCase();
+    });
+    const users = await collect(User.findEach({ pageSize: 2 }));
+    expect(pages).toEqual([[1, 2], [3]]);
+    expect(users.map((u) => u.name)).toEqual(["A", "B", "C"]);
+  });
+
+  it("keeps a parent's children together across page boundaries", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    const Post = definePost(orm, User);
+    executor.respond(/^SELECT/, [
+      row(1, 10),
+      row(1, 11),
+      row(2, 20),
+      row(2, 21),
+      row(3, null),
+    ]);
+    const users = await collect(
+      User.findEach({
+        include: [{ model: Post, as: "posts" }],
+        pageSize: 3,
+      })
+    );
+    expect(users.map((u) => [u.id, u.posts.map((p: any) => p.id)])).toEqual([
+      [1, [10, 11]],
+      [2, [20, 21]],
+      [3, []],
+    ]);
+    expect(executor.statements[0]).toMatch(/ORDER BY `users`\.`id` ASC$/);
+  });
+
+  it("yields plain rows with raw and streams through findAllStream", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(/^SELECT/, [{ users_id: 1 }]);
+    expect(await collect(User.findEach({ raw: true }))).toEqual([
+      { users_id: 1 },
+    ]);
+    expect(await collect(User.findAllStream({ raw: true }))).toEqual([
+      { users_id: 1 },
+    ]);
+  });
+});
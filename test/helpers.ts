@@ -0,0 +1,60 @@
+import {
+  BigQueryORM,
+  BigQueryORMConfig,
+  DataTypes,
+  MemoryExecutor,
+} from "../src";
+
+export function setup(config: Partial<BigQueryORMConfig> = {}) {
+  const executor = new MemoryExecutor();
+  const orm = new BigQueryORM({
+    projectId: "test",
+    dataset: "test",
+    executor,
+    ...config,
+  });
+  return { orm, executor };
+}
+
+export function defineUser(
+  orm: BigQueryORM,
+  options: Record<string, any> = {}
+) {
+  return orm.define(
+    "User",
+    {
+      id: DataTypes.INTEGER,
+      name: DataTypes.STRING,
+      score: DataTypes.INTEGER,
+    },
+    { tableName: "users", ...options }
+  );
+}
+
+// Failure paths log through console.error before rethrowing.
+export function silenceConsole() {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+  afterEach(() => jest.restoreAllMocks());
+}
+
+export function definePost(
+  orm: BigQueryORM,
+  User: ReturnType<typeof defineUser>
+) {
+  const Post = orm.define(
+    "Post",
+    {
+      id: DataTypes.INTEGER,
+      title: DataTypes.STRING,
+      userId: DataTypes.INTEGER,
+    },
+    { tableName: "posts" }
+  );
+  User.hasMany(Post, { foreignKey: "userId", as: "posts" });
+  Post.belongsTo(User, { foreignKey: "userId", as: "user" });
+  return Post;
+}
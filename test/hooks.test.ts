@@ -0,0 +1,65 @@
+import { defineUser, setup } from "./helpers";
+
+function scoped() {
+  const { orm, executor } = setup();
+  const User = defineUser(orm, {
+    hooks: {
+      beforeFind: (options: any) => {
+        options.where = { ...options.where, name: "ada" };
+      },
+    },
+  });
+  return { orm, executor, User };
+}
+
+describe("hooks", () => {
+  it("runs global hooks before model hooks", async () => {
+    const { orm, executor } = setup();
+    const calls: string[] = [];
+    orm.addHook("beforeCreate", () => {
+      calls.push("global");
+    });
+    const User = defineUser(orm, {
+      hooks: { beforeCreate: () => calls.push("model") },
+    });
+    executor.respond(/^INSERT/, []);
+    await User.create({ id: 1, name: "ada" });
+    expect(calls).toEqual(["global", "model"]);
+  });
+
+  it("lets beforeFind scope findAll without mutating the caller's options", async () => {
+    const { executor, User } = scoped();
+    const options = { where: { score: 1 } };
+    await User.findAll(options);
+    expect(executor.queries[0].sql).toContain(
+      "WHERE `users`.`score` = @param0 AND `users`.`name` = @param1"
+    );
+    expect(options).toEqual({ where: { score: 1 } });
+  });
+
+  it("runs beforeFind for count", async () => {
+    const { executor, User } = scoped();
+    executor.respond(/COUNT/, [{ count: 3 }]);
+    expect(await User.count()).toBe(3);
+    expect(executor.queries[0].sql).toContain("`users`.`name` = @param0");
+  });
+
+  it("runs beforeFind for aggregates", async () => {
+    const { executor, User } = scoped();
+    executor.respond(/SUM/, [{ result: 7 }]);
+    expect(await User.sum("score")).toBe(7);
+    expect(executor.queries[0].sql).toContain("`users`.`name` = @param0");
+
+    await User.max("score", { where: { id: 2 } });
+    expect(executor.queries[1].sql).toContain(
+      "`users`.`id` = @param0 AND `users`.`name` = @param1"
+    );
+  });
+
+  it("removes hooks", async () => {
+    const { executor, User } = scoped();
+    User.removeHook("beforeFind");
+    await User.count();
+    expect(executor.queries[0].sql).not.toContain("WHERE");
+  });
+});
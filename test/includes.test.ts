@@ -0,0 +1,120 @@
+import { DataTypes } from "../src";
+import { definePost, defineUser, setup } from "./helpers";
+
+function defineBlog() {
+  const { orm, executor } = setup();
+  const User = defineUser(orm);
+  const Post = definePost(orm, User);
+  const Comment = orm.define(
+    "Comment",
+    {
+      id: DataTypes.INTEGER,
+      postId: DataTypes.INTEGER,
+      body: DataTypes.STRING,
+    },
+    { tableName: "comments" }
+  );
+  Post.hasMany(Comment, { foreignKey: "postId", as: "comments" });
+  return { orm, executor, User, Post, Comment };
+}
+
+const joined = (
+  userId: number,
+  postId: number | null,
+  commentId: number | null
+) => ({
+  users_id: userId,
+  users_name: `user${userId}`,
+  users_score: null,
+  posts_id: postId,
+  posts_title: postId && `post${postId}`,
+  posts_userId: postId && userId,
+  posts__comments_id: commentId,
+  posts__comments_postId: commentId && postId,
+  posts__comments_body: commentId && `comment${commentId}`,
+});
+
+describe("includes", () => {
+  it("joins nested includes and limits parents before the join", async () => {
+    const { executor, User, Post, Comment } = defineBlog();
+    executor.respond(/^SELECT/, [
+      joined(1, 10, 100),
+      joined(1, 10, 101),
+      joined(1, 11, null),
+      joined(2, null, null),
+    ]);
+    const users = await User.findAll({
+      include: [
+        {
+          model: Post,
+          as: "posts",
+          include: [{ model: Comment, as: "comments" }],
+        },
+      ],
+      limit: 2,
+    });
+
+    expect(executor.statements[0]).toContain(
+      "FROM (SELECT * FROM `test.users` AS `users` LIMIT 2) AS `users` LEFT OUTER JOIN `test.posts` AS `posts` ON `users`.`id` = `posts`.`userId` LEFT OUTER JOIN `test.comments` AS `posts__comments` ON `posts`.`id` = `posts__comments`.`postId`"
+    );
+    expect(users.map((u: any) => u.toJSON())).toEqual([
+      {
+        id: 1,
+        name: "user1",
+        score: null,
+        posts: [
+          {
+            id: 10,
+            title: "post10",
+            userId: 1,
+            comments: [
+              { id: 100, postId: 10, body: "comment100" },
+              { id: 101, postId: 10, body: "comment101" },
+            ],
+          },
+          { id: 11, title: "post11", userId: 1, comments: [] },
+        ],
+      },
+      { id: 2, name: "user2", score: null, posts: [] },
+    ]);
+    expect(users[0].posts[0]).toBeInstanceOf(Post);
+  });
+
+  it("loads includes with ARRAY_AGG subqueries", async () => {
+    const { executor, User, Post } = defineBlog();
+    executor.respond(/^SELECT/, [
+      {
+        users_id: 1,
+        users_name: "ada",
+        users_score: null,
+        posts: [{ id: 11, title: "b", userId: 1 }],
+      },
+    ]);
+    const [user] = await User.findAll({
+      include: [
+        { model: Post, as: "posts", order: [["id", "DESC"]], limit: 3 },
+      ],
+    });
+    expect(executor.statements[0]).toBe(
+      "SELECT `users`.`id` AS `users_id`, `users`.`name` AS `users_name`, `users`.`score` AS `users_score`, (SELECT ARRAY_AGG(STRUCT(`posts`.`id` AS `id`, `posts`.`title` AS `title`, `posts`.`userId` AS `userId`) ORDER BY `posts`.`id` DESC LIMIT 3) FROM `test.posts` AS `posts` WHERE `posts`.`userId` = `users`.`id`) AS `posts` FROM `test.users` AS `users`"
+    );
+    expect(user.posts.map((p: any) => p.title)).toEqual(["b"]);
+    expect(user.posts[0]).toBeInstanceOf(Post);
+  });
+
+  it("filters parents through include where and required", async () => {
+    const { User, Post } = defineBlog();
+    const filtered = User.toSQL("select", {
+      include: [{ model: Post, as: "posts", where: { title: "x" } }],
+    });
+    expect(filtered.sql).toContain(
+      "LEFT OUTER JOIN `test.posts` AS `posts` ON `users`.`id` = `posts`.`userId` WHERE `posts`.`title` = @param0"
+    );
+    const required = User.toSQL("select", {
+      include: [{ model: Post, as: "posts", required: true }],
+    });
+    expect(required.sql).toContain(
+      "INNER JOIN `test.posts` AS `posts` ON `users`.`id` = `posts`.`userId`"
+    );
+  });
+});
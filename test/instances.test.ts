@@ -0,0 +1,94 @@
+import { defineUser, setup } from "./helpers";
+
+const ADA = { users_id: 1, users_name: "ada", users_score: 5 };
+
+describe("model instances", () => {
+  it("returns instances with attribute accessors and dirty tracking", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(/^SELECT/, [ADA]);
+    const user = await User.findByPk(1);
+    expect(user).toBeInstanceOf(User);
+    expect(user.name).toBe("ada");
+    expect(user.changed()).toEqual([]);
+
+    user.name = "grace";
+    user.set({ score: 5 });
+    expect(user.changed()).toEqual(["name"]);
+    expect(user.changed("score")).toBe(false);
+    expect(user.toJSON()).toEqual({ id: 1, name: "grace", score: 5 });
+  });
+
+  it("saves only changed columns keyed on the primary key", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(/^SELECT/, [ADA]);
+    const user = await User.findByPk(1);
+    executor.reset();
+
+    await user.save();
+    expect(executor.queries).toEqual([]);
+
+    user.name = "grace";
+    await user.save();
+    expect(executor.queries[0].sql).toBe(
+      "UPDATE `test.users` SET `name` = @set_name WHERE `id` = @param0"
+    );
+    expect(executor.queries[0].params).toEqual({
+      set_name: "grace",
+      param0: 1,
+    });
+    expect(user.changed()).toEqual([]);
+  });
+
+  it("runs validation hooks once per save", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    const beforeValidate = jest.fn();
+    User.addHook("beforeValidate", beforeValidate);
+    executor.respond(/^SELECT/, [ADA]);
+    const user = await User.findByPk(1);
+    user.name = "grace";
+    await user.save();
+    expect(beforeValidate).toHaveBeenCalledTimes(1);
+  });
+
+  it("inserts new instances on save", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    const draft = User.build({ id: 2, name: "bob" });
+    expect(draft).toBeInstanceOf(User);
+    expect(draft.isNewRecord).toBe(true);
+    await draft.save();
+    expect(executor.inserts).toEqual([
+      { tableName: "users", rows: [{ id: 2, name: "bob" }] },
+    ]);
+    expect(draft.isNewRecord).toBe(false);
+  });
+
+  it("reloads and destroys by primary key", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(/^SELECT/, [ADA]);
+    const user = await User.findByPk(1);
+    user.name = "changed";
+
+    await user.reload();
+    expect(user.name).toBe("ada");
+    expect(user.changed()).toEqual([]);
+
+    await user.destroy();
+    expect(executor.statements.pop()).toBe(
+      "DELETE FROM `test.users` WHERE `id` = @param0"
+    );
+  });
+
+  it("fails to reload a row that no longer exists", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(/^SELECT/, [ADA]);
+    const user = await User.findByPk(1);
+    executor.reset();
+    await expect(user.reload()).rejects.toThrow("no longer exists");
+  });
+});
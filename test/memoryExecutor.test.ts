@@ -0,0 +1,81 @@
+import { BigQueryORM, DataTypes, MemoryExecutor } from "../src";
+import { defineUser, setup } from "./helpers";
+
+describe("MemoryExecutor", () => {
+  it("runs the README example", async () => {
+    const executor = new MemoryExecutor().respond(/FROM `test.users`/, [
+      { users_id: 1, users_name: "Jane" },
+    ]);
+    const orm = new BigQueryORM({
+      projectId: "test",
+      dataset: "test",
+      executor,
+    });
+    const User = orm.define(
+      "User",
+      { id: DataTypes.INTEGER, name: DataTypes.STRING },
+      { tableName: "users" }
+    );
+
+    const users = await User.findAll({ where: { id: 1 } });
+    expect(users[0].name).toBe("Jane");
+    expect(executor.queries[0].sql).toContain("WHERE `users`.`id` = @param0");
+    expect(executor.queries[0].params).toEqual({ param0: 1 });
+  });
+
+  it("lets the most recent matching response win", async () => {
+    const executor = new MemoryExecutor()
+      .respond("SELECT", [{ n: 1 }])
+      .respond(/FROM b/, [{ n: 2 }])
+      .respond((q) => q.sql.endsWith("c"), { rows: [{ n: 3 }] });
+    expect((await executor.query({ query: "SELECT 1 FROM a" })).rows).toEqual([
+      { n: 1 },
+    ]);
+    expect((await executor.query({ query: "SELECT 1 FROM b" })).rows).toEqual([
+      { n: 2 },
+    ]);
+    expect((await executor.query({ query: "SELECT 1 FROM c" })).rows).toEqual([
+      { n: 3 },
+    ]);
+    expect((await executor.query({ query: "DELETE FROM d" })).rows).toEqual([]);
+    expect(executor.statements).toHaveLength(4);
+  });
+
+  it("records update statements with their parameters", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    await User.update({ name: "Bob" }, { where: { id: 2 } });
+    const [update] = executor.queries;
+    expect(update.sql).toMatch(/^UPDATE `test.users` SET `name` = @\w+/);
+    expect(Object.values(update.params as object)).toEqual(
+      expect.arrayContaining(["Bob", 2])
+    );
+  });
+
+  it("keeps tables created by sync with their schema", async () => {
+    const { orm, executor } = setup();
+    defineUser(orm);
+    await orm.sync();
+    expect(executor.datasetCreated).toBe(true);
+    const metadata = await executor.getTableMetadata("users");
+    expect(metadata.schema!.fields!.map((f) => f.name)).toEqual([
+      "id",
+      "name",
+      "score",
+    ]);
+    await expect(executor.getTableMetadata("missing")).rejects.toThrow(
+      "Not found"
+    );
+  });
+
+  it("reset clears recorded state", async () => {
+    const { orm, executor } = setup();
+    defineUser(orm);
+    await orm.sync();
+    await executor.query({ query: "SELECT 1" });
+    executor.reset();
+    expect(executor.queries).toEqual([]);
+    expect(executor.tables.size).toBe(0);
+    expect(executor.datasetCreated).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DataTypes, planMigration, snapshotModels } from "../src";
+import { defineUser, setup, silenceConsole } from "./helpers";
+
+let dir: string;
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "bq-orm-generate-"));
+});
+afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+// Runs a generated migration against a recording QueryInterface.
+async function calls(file: string, direction: "up" | "down") {
+  const recorded: any[][] = [];
+  const qi = new Proxy(
+    {},
+    {
+      get:
+        (_, method) =>
+        async (...args: any[]) =>
+          recorded.push([method, ...args]),
+    }
+  );
+  await require(file)[direction](qi);
+  return recorded;
+}
+
+describe("migration generation", () => {
+  silenceConsole();
+
+  it("creates new tables and records a snapshot", async () => {
+    const { orm } = setup();
+    defineUser(orm, { clusterBy: ["name"] });
+    const snapshotPath = path.join(dir, "schema.json");
+    const file = (await orm.generateMigration(dir, "Create users!", {
+      snapshotPath,
+    }))!;
+
+    expect(path.basename(file)).toMatch(/^\d{14}-create-users\.js$/);
+    expect(await calls(file, "up")).toEqual([
+      [
+        "createTable",
+        "users",
+        { id: "INTEGER", name: "STRING", score: "INTEGER" },
+        { clusterBy: ["name"] },
+      ],
+    ]);
+    expect(await calls(file, "down")).toEqual([["dropTable", "users"]]);
+    expect(JSON.parse(fs.readFileSync(snapshotPath, "utf8"))).toEqual(
+      snapshotModels(Object.values(orm.models))
+    );
+    expect(
+      await orm.generateMigration(dir, "again", { snapshotPath })
+    ).toBeNull();
+  });
+
+  async function liveUsers() {
+    const { orm, executor } = setup();
+    executor.datasetCreated = true;
+    await executor.createTable("users", {
+      schema: [
+        { name: "id", type: "INTEGER" },
+        { name: "fullName", type: "STRING" },
+        { name: "score", type: "INTEGER" },
+      ],
+    });
+    return orm;
+  }
+
+  it("only writes renames when asked to", async () => {
+    const orm = await liveUsers();
+    orm.define(
+      "User",
+      {
+        id: DataTypes.INTEGER,
+        name: DataTypes.STRING,
+        score: DataTypes.INTEGER,
+      },
+      { tableName: "users" }
+    );
+    const file = (await orm.generateMigration(dir, "users"))!;
+    expect(fs.readFileSync(file, "utf8")).toContain(
+      "// If fullName was renamed to name, use renameColumn instead to keep its data."
+    );
+    expect(await calls(file, "up")).toEqual([
+      ["addColumn", "users", "name", "STRING"],
+      ["removeColumn", "users", "fullName"],
+    ]);
+  });
+
+  it("detects renames and widens columns against the live dataset", async () => {
+    const orm = await liveUsers();
+    orm.define(
+      "User",
+      { id: DataTypes.INTEGER, name: DataTypes.STRING, score: DataTypes.FLOAT },
+      { tableName: "users" }
+    );
+    const file = (await orm.generateMigration(dir, "users", {
+      detectRenames: true,
+    }))!;
+    expect(fs.readFileSync(file, "utf8")).toContain("Detected as a rename");
+    expect(await calls(file, "up")).toEqual([
+      ["renameColumn", "users", "fullName", "name"],
+      ["changeColumn", "users", "score", "FLOAT"],
+    ]);
+    expect(await calls(file, "down")).toEqual([
+      ["renameColumn", "users", "name", "fullName"],
+    ]);
+  });
+
+  it("adds and removes columns", async () => {
+    const orm = await liveUsers();
+    orm.define(
+      "User",
+      {
+        id: DataTypes.INTEGER,
+        score: DataTypes.INTEGER,
+        email: { type: DataTypes.STRING, description: "Contact" },
+        active: DataTypes.BOOLEAN,
+      },
+      { tableName: "users" }
+    );
+    const file = (await orm.generateMigration(dir, "users"))!;
+    expect(await calls(file, "up")).toEqual([
+      [
+        "addColumn",
+        "users",
+        "email",
+        { type: "STRING", description: "Contact" },
+      ],
+      ["addColumn", "users", "active", "BOOLEAN"],
+      ["removeColumn", "users", "fullName"],
+    ]);
+    expect(await calls(file, "down")).toEqual([
+      ["addColumn", "users", "fullName", "STRING"],
+      ["removeColumn", "users", "active"],
+      ["removeColumn", "users", "email"],
+    ]);
+  });
+
+  it("refuses changes it cannot write unless manual steps are allowed", async () => {
+    const orm = await liveUsers();
+    orm.define(
+      "User",
+      {
+        id: DataTypes.INTEGER,
+        fullName: DataTypes.STRING,
+        score: DataTypes.STRING,
+      },
+      { tableName: "users" }
+    );
+    await expect(orm.generateMigration(dir, "users")).rejects.toThrow(
+      "users: Change type of score from INTEGER to STRING"
+    );
+    expect(fs.readdirSync(dir)).toEqual([]);
+
+    const file = (await orm.generateMigration(dir, "users", {
+      allowManualSteps: true,
+    }))!;
+    expect(fs.readFileSync(file, "utf8")).toContain(
+      "// TODO: Change type of score from INTEGER to STRING"
+    );
+    await expect(calls(file, "up")).rejects.toThrow(
+      "Fill in the TODO steps of this migration"
+    );
+  });
+
+  it("plans nothing when the snapshot matches", () => {
+    const { orm } = setup();
+    const User = defineUser(orm);
+    expect(planMigration(snapshotModels([User]), [User])).toEqual([]);
+  });
+});
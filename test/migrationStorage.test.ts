@@ -0,0 +1,143 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  BigQueryTableStorage,
+  JsonFileStorage,
+  LoadJobTableStorage,
+  MigrationLockError,
+  createMigrationStorage,
+} from "../src";
+import { setup } from "./helpers";
+
+const record = (name: string, executedAt = new Date()) => ({
+  name,
+  executedAt,
+  checksum: "abc",
+  status: "succeeded" as const,
+});
+
+describe("createMigrationStorage", () => {
+  it("uses load jobs in free tier mode and DML otherwise", () => {
+    expect(setup().orm.migrationStorage).toBeInstanceOf(BigQueryTableStorage);
+    expect(setup({ freeTierMode: true }).orm.migrationStorage).toBeInstanceOf(
+      LoadJobTableStorage
+    );
+    const { orm } = setup();
+    expect(createMigrationStorage(orm, { file: "m.json" })).toBeInstanceOf(
+      JsonFileStorage
+    );
+  });
+});
+
+describe("JsonFileStorage", () => {
+  let dir: string;
+  let storage: JsonFileStorage;
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "bq-orm-storage-"));
+    storage = new JsonFileStorage(path.join(dir, "nested", "migrations.json"));
+    await storage.setup();
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("saves, replaces and removes records in execution order", async () => {
+    await storage.save(record("002", new Date(2000)));
+    await storage.save(record("001", new Date(1000)));
+    await storage.save({ ...record("002", new Date(3000)), status: "failed" });
+    expect((await storage.records()).map((r) => [r.name, r.status])).toEqual([
+      ["001", "succeeded"],
+      ["002", "failed"],
+    ]);
+    expect((await storage.records())[0].executedAt).toEqual(new Date(1000));
+
+    await storage.remove("001");
+    expect((await storage.records()).map((r) => r.name)).toEqual(["002"]);
+  });
+
+  it("locks out other runners until released or expired", async () => {
+    const owner = await storage.acquireLock(60_000);
+    await expect(storage.acquireLock(60_000)).rejects.toBeInstanceOf(
+      MigrationLockError
+    );
+    await storage.renewLock(owner, 60_000);
+    await storage.releaseLock(owner);
+
+    await storage.acquireLock(-1);
+    const next = await storage.acquireLock(60_000);
+    await expect(storage.renewLock("someone else", 1)).rejects.toThrow(
+      "expired or was taken over"
+    );
+    await storage.releaseLock(next);
+  });
+});
+
+describe("LoadJobTableStorage", () => {
+  it("rewrites the records table with a truncating load job", async () => {
+    const { orm, executor } = setup({ freeTierMode: true });
+    const storage = orm.migrationStorage;
+    await storage.setup();
+    expect(executor.tables.has("migrations")).toBe(true);
+
+    executor.respond(/FROM `test\.test\.migrations`/, [
+      { name: "001", executed_at: "2024-01-01T00:00:00.000Z", checksum: null },
+    ]);
+    await storage.save(record("002", new Date("2024-01-02T00:00:00.000Z")));
+
+    const [load] = executor.loads;
+    expect(load.metadata.writeDisposition).toBe("WRITE_TRUNCATE");
+    expect(
+      load.contents
+        .toString()
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line))
+    ).toEqual([
+      {
+        name: "001",
+        executed_at: "2024-01-01T00:00:00.000Z",
+        checksum: null,
+        status: "succeeded",
+      },
+      {
+        name: "002",
+        executed_at: "2024-01-02T00:00:00.000Z",
+        checksum: "abc",
+        status: "succeeded",
+      },
+    ]);
+    // No DML is issued.
+    expect(executor.statements.every((sql) => sql.startsWith("SELECT"))).toBe(
+      true
+    );
+  });
+
+  it("locks with an expiring lease table", async () => {
+    const { orm, executor } = setup({ freeTierMode: true });
+    const storage = orm.migrationStorage;
+    const owner = await storage.acquireLock(60_000);
+    expect(executor.tables.get("migrations_lease")!.description).toBe(owner);
+    await expect(storage.acquireLock(60_000)).rejects.toThrow(
+      `Migrations are locked by ${owner}`
+    );
+    await storage.releaseLock(owner);
+    expect(executor.tables.has("migrations_lease")).toBe(false);
+
+    // A lease BigQuery has not yet deleted after expiry is taken over.
+    await storage.acquireLock(-1);
+    await storage.acquireLock(60_000);
+  });
+
+  it("adds status columns to tables from older versions", async () => {
+    const { orm, executor } = setup({ freeTierMode: true });
+    await executor.createTable("migrations", {
+      schema: [
+        { name: "name", type: "STRING" },
+        { name: "executed_at", type: "TIMESTAMP" },
+      ],
+    });
+    await orm.migrationStorage.setup();
+    expect(
+      executor.tables.get("migrations")!.schema!.fields!.map((f) => f.name)
+    ).toEqual(["name", "executed_at", "checksum", "status"]);
+  });
+});
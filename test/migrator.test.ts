@@ -0,0 +1,121 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { MigrationRecord, MigrationStorage } from "../src";
+import { setup, silenceConsole } from "./helpers";
+
+class ArrayStorage implements MigrationStorage {
+  saved: MigrationRecord[] = [];
+  renewals = 0;
+  async setup() {}
+  async records() {
+    const latest = new Map(this.saved.map((r) => [r.name, r]));
+    return [...latest.values()];
+  }
+  async save(record: MigrationRecord) {
+    this.saved.push(record);
+  }
+  async remove(name: string) {
+    this.saved = this.saved.filter((r) => r.name !== name);
+  }
+  async acquireLock() {
+    return "owner";
+  }
+  async renewLock() {
+    this.renewals++;
+  }
+  async releaseLock() {}
+}
+
+const dirs: string[] = [];
+afterAll(() => {
+  for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function migrationsDir(files: Record<string, string>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "bq-orm-migrations-"));
+  dirs.push(dir);
+  for (const [name, body] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), body);
+  }
+  return dir;
+}
+
+describe("Migrator", () => {
+  silenceConsole();
+
+  it("runs pending migrations in order and records them", async () => {
+    const storage = new ArrayStorage();
+    const { orm } = setup({ migrationStorage: storage });
+    const dir = migrationsDir({
+      "002-b.js": "module.exports = { up: async () => {} };",
+      "001-a.js": "module.exports = { up: async () => {} };",
+    });
+
+    expect(await orm.runMigrations(dir)).toEqual(["001-a", "002-b"]);
+    expect((await storage.records()).map((r) => r.status)).toEqual([
+      "succeeded",
+      "succeeded",
+    ]);
+    expect(await orm.runMigrations(dir)).toEqual([]);
+  });
+
+  it("records nothing when a migration fails to load", async () => {
+    const storage = new ArrayStorage();
+    const { orm } = setup({ migrationStorage: storage });
+    const dir = migrationsDir({ "001-broken.js": "module.exports = {" });
+
+    await expect(orm.runMigrations(dir)).rejects.toThrow();
+    expect(storage.saved).toEqual([]);
+  });
+
+  it("marks a migration failed when up throws", async () => {
+    const storage = new ArrayStorage();
+    const { orm } = setup({ migrationStorage: storage });
+    const dir = migrationsDir({
+      "001-fails.js":
+        "module.exports = { up: async () => { throw new Error('boom'); } };",
+    });
+
+    await expect(orm.runMigrations(dir)).rejects.toThrow("boom");
+    expect((await storage.records())[0].status).toBe("failed");
+  });
+
+  it("renews the lock while a migration runs", async () => {
+    const storage = new ArrayStorage();
+    const { orm } = setup({ migrationStorage: storage });
+    const dir = migrationsDir({
+      "001-slow.js":
+        "module.exports = { up: () => new Promise((r) => setTimeout(r, 100)) };",
+    });
+
+    await orm.runMigrations(dir, { lockTtl: 30 });
+    expect(storage.renewals).toBeGreaterThan(0);
+    const renewals = storage.renewals;
+    await new Promise((r) => setTimeout(r, 50));
+    expect(storage.renewals).toBe(renewals);
+  });
+
+  it("renews the lock while a migration is reverted", async () => {
+    const storage = new ArrayStorage();
+    const { orm } = setup({ migrationStorage: storage });
+    const dir = migrationsDir({
+      "001-slow.js": `module.exports = {
+        up: async () => {},
+        down: () => new Promise((r) => setTimeout(r, 20 * 60 * 1000)),
+      };`,
+    });
+    await orm.runMigrations(dir);
+
+    jest.useFakeTimers();
+    try {
+      const reverted = orm.revertLastMigration(dir);
+      await jest.advanceTimersByTimeAsync(20 * 60 * 1000);
+      expect(await reverted).toBe("001-slow");
+    } finally {
+      jest.useRealTimers();
+    }
+    expect(storage.renewals).toBeGreaterThan(0);
+    expect(storage.saved).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+import { defineUser, setup } from "./helpers";
+
+function rowsFor(ids: [number, number | null][]) {
+  return ids.map(([id, score]) => ({ users_id: id, users_score: score }));
+}
+
+describe("Model.paginate", () => {
+  it("fetches one extra row to detect the next page", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(
+      "FROM `test.users`",
+      rowsFor([
+        [1, 5],
+        [2, 6],
+        [3, 7],
+      ])
+    );
+
+    const { rows, pageInfo } = await User.paginate({
+      order: [["score", "ASC"]],
+      first: 2,
+    });
+    expect(rows.map((r: any) => r.id)).toEqual([1, 2]);
+    expect(pageInfo.hasNextPage).toBe(true);
+    expect(pageInfo.hasPreviousPage).toBe(false);
+    expect(executor.queries[0].sql).toContain(
+      "ORDER BY `users`.`score` ASC, `users`.`id` ASC LIMIT 3"
+    );
+  });
+
+  it("continues after a cursor with a keyset predicate", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(
+      "FROM `test.users`",
+      rowsFor([
+        [1, 5],
+        [2, 6],
+      ])
+    );
+    const first = await User.paginate({ order: [["score", "ASC"]], first: 1 });
+
+    executor.reset();
+    await User.paginate({
+      order: [["score", "ASC"]],
+      first: 1,
+      after: first.pageInfo.endCursor!,
+    });
+    const { sql, params } = executor.queries[0];
+    expect(sql).toContain(
+      "(`users`.`score` > @param0) OR (`users`.`score` = @param1 AND `users`.`id` > @param2)"
+    );
+    expect(params).toEqual({ param0: 5, param1: 5, param2: 1 });
+  });
+
+  it("uses IS NOT NULL after a NULL cursor value in ascending order", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(
+      "FROM `test.users`",
+      rowsFor([
+        [1, null],
+        [2, 3],
+      ])
+    );
+    const first = await User.paginate({ order: [["score", "ASC"]], first: 1 });
+
+    executor.reset();
+    await User.paginate({
+      order: [["score", "ASC"]],
+      first: 1,
+      after: first.pageInfo.endCursor!,
+    });
+    const { sql, params } = executor.queries[0];
+    expect(sql).toContain(
+      "(`users`.`score` IS NOT NULL) OR (`users`.`score` IS NULL AND `users`.`id` > @param0)"
+    );
+    expect(params).toEqual({ param0: 1 });
+  });
+
+  it("keeps NULLs after non-NULL values in descending order", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(
+      "FROM `test.users`",
+      rowsFor([
+        [1, 4],
+        [2, null],
+      ])
+    );
+    const first = await User.paginate({ order: [["score", "DESC"]], first: 1 });
+
+    executor.reset();
+    await User.paginate({
+      order: [["score", "DESC"]],
+      first: 1,
+      after: first.pageInfo.endCursor!,
+    });
+    expect(executor.queries[0].sql).toContain(
+      "(((`users`.`score` < @param0) OR (`users`.`score` IS NULL))) OR (`users`.`score` = @param1 AND `users`.`id` > @param2)"
+    );
+  });
+
+  it("only compares the tie-breaker after a NULL in descending order", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(
+      "FROM `test.users`",
+      rowsFor([
+        [2, null],
+        [3, null],
+      ])
+    );
+    const first = await User.paginate({ order: [["score", "DESC"]], first: 1 });
+
+    executor.reset();
+    await User.paginate({
+      order: [["score", "DESC"]],
+      first: 1,
+      after: first.pageInfo.endCursor!,
+    });
+    const { sql, params } = executor.queries[0];
+    expect(sql).toContain(
+      "(`users`.`score` IS NULL AND `users`.`id` > @param0)"
+    );
+    expect(sql).not.toContain("`users`.`score` <");
+    expect(params).toEqual({ param0: 2 });
+  });
+
+  it("pages backwards by flipping the order and reversing the rows", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(
+      "FROM `test.users`",
+      rowsFor([
+        [2, 6],
+        [1, 5],
+      ])
+    );
+    const cursor = (
+      await User.paginate({ order: [["score", "ASC"]], first: 5 })
+    ).pageInfo.startCursor!;
+
+    executor.reset();
+    executor.respond(
+      "FROM `test.users`",
+      rowsFor([
+        [2, 6],
+        [1, 5],
+      ])
+    );
+    const { rows, pageInfo } = await User.paginate({
+      order: [["score", "ASC"]],
+      first: 5,
+      before: cursor,
+    });
+    expect(executor.queries[0].sql).toContain(
+      "ORDER BY `users`.`score` DESC, `users`.`id` DESC"
+    );
+    expect(rows.map((r: any) => r.id)).toEqual([1, 2]);
+    expect(pageInfo.hasNextPage).toBe(true);
+    expect(pageInfo.hasPreviousPage).toBe(false);
+  });
+
+  it("rejects malformed cursors and unknown order columns", async () => {
+    const { orm } = setup();
+    const User = defineUser(orm);
+    await expect(User.paginate({ after: "nope" })).rejects.toThrow(
+      "Invalid pagination cursor"
+    );
+    await expect(
+      User.paginate({ order: [["missing", "ASC"]] })
+    ).rejects.toThrow("not an attribute");
+  });
+});
@@ -0,0 +1,133 @@
+import { tableMetadata } from "../src";
+import { defineUser, setup, silenceConsole } from "./helpers";
+
+const fields = [
+  { name: "id", type: "INTEGER" },
+  { name: "occurredAt", type: "TIMESTAMP" },
+];
+
+function withEvents() {
+  const context = setup();
+  context.executor.createTable("events", { schema: fields });
+  return context;
+}
+
+describe("partitioning", () => {
+  silenceConsole();
+
+  it("builds time and range partitioning metadata", () => {
+    expect(
+      tableMetadata({
+        partitionBy: "occurredAt",
+        clusterBy: ["id"],
+        partitionExpirationDays: 1,
+      })
+    ).toEqual({
+      timePartitioning: {
+        type: "DAY",
+        field: "occurredAt",
+        expirationMs: "86400000",
+      },
+      clustering: { fields: ["id"] },
+    });
+    expect(
+      tableMetadata({
+        partitionBy: {
+          field: "score",
+          range: { start: 0, end: 100, interval: 10 },
+        },
+        requirePartitionFilter: true,
+      })
+    ).toEqual({
+      rangePartitioning: {
+        field: "score",
+        range: { start: "0", end: "100", interval: "10" },
+      },
+      requirePartitionFilter: true,
+    });
+    expect(() => tableMetadata({ requirePartitionFilter: true })).toThrow(
+      "need partitionBy"
+    );
+  });
+
+  it("creates model tables with their partitioning", async () => {
+    const { orm, executor } = setup();
+    defineUser(orm, {
+      partitionBy: {
+        field: "score",
+        range: { start: 0, end: 100, interval: 10 },
+      },
+      clusterBy: ["name"],
+    });
+    await orm.sync();
+    const metadata = executor.tables.get("users")!;
+    expect(metadata.rangePartitioning!.field).toBe("score");
+    expect(metadata.clustering).toEqual({ fields: ["name"] });
+  });
+
+  it("rebuilds the table, swaps it in and keeps the backup", async () => {
+    const { orm, executor } = withEvents();
+    const backup = await orm
+      .getQueryInterface()
+      .addPartition("events", { field: "occurredAt", type: "MONTH" });
+
+    const [create, renameOld, renameNew] = executor.statements;
+    expect(create).toMatch(
+      /^CREATE TABLE `test\.test\.events_repartition_\d+` \(`id` INTEGER, `occurredAt` TIMESTAMP\) PARTITION BY TIMESTAMP_TRUNC\(`occurredAt`, MONTH\) AS SELECT \* FROM `test\.test\.events`$/
+    );
+    expect(renameOld).toBe(
+      `ALTER TABLE \`test.test.events\` RENAME TO \`${backup}\``
+    );
+    expect(renameNew).toMatch(/RENAME TO `events`$/);
+    expect(backup).toMatch(/^events_backup_\d+$/);
+  });
+
+  it("drops the backup when asked", async () => {
+    const { orm, executor } = withEvents();
+    const deleteTable = jest.spyOn(executor, "deleteTable");
+    const backup = await orm
+      .getQueryInterface()
+      .addPartition("events", "occurredAt", { dropBackup: true });
+    expect(backup).toBeNull();
+    expect(deleteTable).toHaveBeenCalledWith(
+      expect.stringMatching(/^events_backup_\d+$/)
+    );
+  });
+
+  it("renames the original back when the swap fails", async () => {
+    const { orm, executor } = withEvents();
+    executor.respond(/_repartition_\d+` RENAME/, () => {
+      throw new Error("rename failed");
+    });
+    await expect(
+      orm.getQueryInterface().addPartition("events", "occurredAt")
+    ).rejects.toThrow("rename failed");
+    expect(executor.statements.pop()).toMatch(
+      /^ALTER TABLE `test\.test\.events_backup_\d+` RENAME TO `events`$/
+    );
+  });
+
+  it("rethrows the original error when cleanup also fails", async () => {
+    const { orm, executor } = withEvents();
+    executor.respond(/`test\.test\.events` RENAME/, () => {
+      throw new Error("rename failed");
+    });
+    jest
+      .spyOn(executor, "deleteTable")
+      .mockRejectedValue(new Error("delete failed"));
+    await expect(
+      orm.getQueryInterface().addPartition("events", "occurredAt")
+    ).rejects.toThrow("rename failed");
+  });
+
+  it("refuses ingestion-time partitioning and unknown columns", async () => {
+    const { orm } = withEvents();
+    const qi = orm.getQueryInterface();
+    await expect(qi.addPartition("events", { type: "DAY" })).rejects.toThrow(
+      "existing rows have no ingestion time"
+    );
+    await expect(qi.addPartition("events", "missing")).rejects.toThrow(
+      "Column missing not found in events"
+    );
+  });
+});
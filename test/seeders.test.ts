@@ -0,0 +1,75 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { setup, silenceConsole } from "./helpers";
+
+const SEEDER = `module.exports = {
+  async up(qi) {
+    await qi.bulkInsert("countries", [{ code: "FR" }, { code: "DE" }]);
+  },
+  async down(qi) {
+    await qi.bulkDelete("countries", { code: ["FR", "DE"] });
+  },
+};`;
+
+let dir: string;
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "bq-orm-seeders-"));
+  fs.writeFileSync(path.join(dir, "01-countries.js"), SEEDER);
+  fs.writeFileSync(
+    path.join(dir, "02-empty.js"),
+    "module.exports = { up: async () => {}, down: async () => {} };"
+  );
+});
+afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+async function seededOrm() {
+  const context = setup({
+    seederStorage: { file: path.join(dir, "seeders.json") },
+  });
+  await context.executor.createTable("countries", {
+    schema: [{ name: "code", type: "STRING" }],
+  });
+  return context;
+}
+
+describe("seeders", () => {
+  silenceConsole();
+
+  it("run once each and load rows with a load job", async () => {
+    const { orm, executor } = await seededOrm();
+    expect(await orm.runSeeders(dir)).toEqual(["01-countries", "02-empty"]);
+    expect(executor.loads).toHaveLength(1);
+    expect(executor.loads[0].contents.toString()).toBe(
+      '{"code":"FR"}\n{"code":"DE"}\n'
+    );
+    expect(await orm.runSeeders(dir)).toEqual([]);
+  });
+
+  it("run only the named seeders", async () => {
+    const { orm } = await seededOrm();
+    expect(await orm.runSeeders(dir, { only: ["02-empty"] })).toEqual([
+      "02-empty",
+    ]);
+    await expect(orm.runSeeders(dir, { only: ["missing"] })).rejects.toThrow(
+      "Seeder file not found: missing"
+    );
+  });
+
+  it("do not reject edited seeders", async () => {
+    const { orm } = await seededOrm();
+    await orm.runSeeders(dir);
+    fs.appendFileSync(path.join(dir, "01-countries.js"), "\n// edited\n");
+    await expect(orm.runSeeders(dir)).resolves.toEqual([]);
+  });
+
+  it("revert the most recent seeder", async () => {
+    const { orm, executor } = await seededOrm();
+    await orm.runSeeders(dir, { only: ["01-countries"] });
+    expect(await orm.revertLastSeeder(dir)).toBe("01-countries");
+    expect(executor.statements.pop()).toBe(
+      "DELETE FROM `test.test.countries` WHERE `code` IN UNNEST(@param0)"
+    );
+    expect(await orm.revertLastSeeder(dir)).toBeNull();
+  });
+});
@@ -0,0 +1,260 @@
+import { DataTypes, diffTableOptions, diffTableSchema } from "../src";
+import { defineUser, setup, silenceConsole } from "./helpers";
+
+describe("diffTableSchema", () => {
+  it("classifies additions, relaxations, widenings and drops", () => {
+    const changes = diffTableSchema(
+      "users",
+      {
+        id: DataTypes.INTEGER,
+        score: DataTypes.FLOAT,
+        name: DataTypes.STRING,
+        addr: {
+          type: "STRUCT",
+          fields: { city: DataTypes.STRING, zip: DataTypes.STRING },
+        },
+      },
+      [
+        { name: "id", type: "INTEGER", mode: "REQUIRED" },
+        { name: "score", type: "INTEGER" },
+        {
+          name: "addr",
+          type: "RECORD",
+          fields: [{ name: "city", type: "STRING" }],
+        },
+        { name: "legacy", type: "STRING" },
+      ]
+    );
+    expect(
+      changes.map(({ action, column, applicable }) => [
+        action,
+        column,
+        applicable,
+      ])
+    ).toEqual([
+      ["relaxColumn", "id", true],
+      ["widenColumn", "score", true],
+      ["addColumn", "name", true],
+      ["addColumn", "addr.zip", true],
+      ["dropColumn", "legacy", false],
+    ]);
+  });
+
+  it("refuses narrowing and incompatible changes", () => {
+    const [change] = diffTableSchema("users", { score: DataTypes.INTEGER }, [
+      { name: "score", type: "STRING" },
+    ]);
+    expect(change.action).toBe("changeColumnType");
+    expect(change.applicable).toBe(false);
+  });
+});
+
+describe("diffTableOptions", () => {
+  it("reports partitioning changes as needing a rebuild", () => {
+    const changes = diffTableOptions(
+      "events",
+      { partitionBy: { field: "occurredAt", type: "DAY" } },
+      { timePartitioning: { type: "DAY", field: "createdAt" } }
+    );
+    expect(changes).toEqual([
+      expect.objectContaining({
+        action: "changePartitioning",
+        from: "DAY(createdAt)",
+        to: "DAY(occurredAt)",
+        applicable: false,
+      }),
+    ]);
+    expect(
+      diffTableOptions(
+        "events",
+        { partitionBy: "occurredAt" },
+        { timePartitioning: { type: "DAY", field: "occurredAt" } }
+      )
+    ).toEqual([]);
+  });
+
+  it("changes the partition filter and expiration in place", () => {
+    const [change] = diffTableOptions(
+      "events",
+      {
+        partitionBy: "occurredAt",
+        requirePartitionFilter: true,
+        partitionExpirationDays: 30,
+      },
+      {
+        timePartitioning: {
+          type: "DAY",
+          field: "occurredAt",
+          expirationMs: String(90 * 24 * 60 * 60 * 1000),
+        },
+      }
+    );
+    expect(change).toMatchObject({
+      action: "changePartitionOptions",
+      applicable: true,
+      description:
+        "Change partition options of events from requirePartitionFilter: false, expiration: 90 days to requirePartitionFilter: true, expiration: 30 days",
+    });
+  });
+
+  it("compares range partitioning and clustering", () => {
+    const changes = diffTableOptions(
+      "events",
+      {
+        partitionBy: {
+          field: "userId",
+          range: { start: 0, end: 100, interval: 10 },
+        },
+        clusterBy: ["userId"],
+      },
+      {
+        rangePartitioning: {
+          field: "userId",
+          range: { start: "0", end: "100", interval: "10" },
+        },
+        clustering: { fields: ["name"] },
+      }
+    );
+    expect(changes).toEqual([
+      expect.objectContaining({
+        action: "changeClustering",
+        tableOptions: { clusterBy: ["userId"] },
+        applicable: true,
+        description: "Cluster events by userId instead of name",
+      }),
+    ]);
+    const [removal] = diffTableOptions(
+      "events",
+      {},
+      { clustering: { fields: ["name"] } }
+    );
+    expect(removal.applicable).toBe(false);
+  });
+});
+
+describe("orm.sync", () => {
+  silenceConsole();
+
+  async function withLiveTable() {
+    const context = setup();
+    context.executor.datasetCreated = true;
+    await context.executor.createTable("users", {
+      schema: [
+        { name: "id", type: "INTEGER" },
+        { name: "score", type: "INTEGER" },
+        { name: "legacy", type: "STRING" },
+      ],
+    });
+    defineUser(context.orm);
+    return context;
+  }
+
+  it("creates missing tables and the dataset", async () => {
+    const { orm, executor } = setup();
+    defineUser(orm);
+    const plan = await orm.sync();
+    expect(executor.datasetCreated).toBe(true);
+    expect(plan.map((c) => c.action)).toEqual(["createTable"]);
+    expect(executor.tables.has("users")).toBe(true);
+  });
+
+  it("returns the plan without applying it on dryRun", async () => {
+    const { orm, executor } = await withLiveTable();
+    const plan = await orm.sync({ dryRun: true });
+    expect(plan.map((c) => c.description)).toEqual([
+      "Add column name STRING",
+      "Drop column legacy (not applied automatically)",
+    ]);
+    expect(executor.statements).toEqual([]);
+  });
+
+  it("applies safe changes and warns about the rest with alter", async () => {
+    const { orm, executor } = await withLiveTable();
+    await orm.sync({ alter: true });
+    expect(executor.statements).toEqual([
+      "ALTER TABLE `test.test.users` ADD COLUMN `name` STRING",
+    ]);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("Drop column legacy")
+    );
+  });
+
+  it("plans partitioning changes and applies clustering with alter", async () => {
+    const { orm, executor } = setup();
+    executor.datasetCreated = true;
+    await executor.createTable("events", {
+      schema: [
+        { name: "id", type: "INTEGER" },
+        { name: "occurredAt", type: "TIMESTAMP" },
+      ],
+    });
+    orm.define(
+      "Event",
+      { id: DataTypes.INTEGER, occurredAt: DataTypes.TIMESTAMP },
+      { tableName: "events", partitionBy: "occurredAt", clusterBy: ["id"] }
+    );
+
+    const plan = await orm.sync({ dryRun: true });
+    expect(plan.map((c) => [c.action, c.applicable])).toEqual([
+      ["changePartitioning", false],
+      ["changeClustering", true],
+    ]);
+    expect(executor.tables.get("events")!.clustering).toBeUndefined();
+
+    await orm.sync({ alter: true });
+    expect(executor.tables.get("events")!.clustering).toEqual({
+      fields: ["id"],
+    });
+    expect(executor.tables.get("events")!.timePartitioning).toBeUndefined();
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Change partitioning of events from none to DAY(occurredAt)"
+      )
+    );
+  });
+
+  it("applies partition options to existing partitioned tables", async () => {
+    const { orm, executor } = setup();
+    executor.datasetCreated = true;
+    await executor.createTable("events", {
+      schema: [{ name: "occurredAt", type: "TIMESTAMP" }],
+      timePartitioning: { type: "DAY", field: "occurredAt" },
+      requirePartitionFilter: true,
+    });
+    orm.define(
+      "Event",
+      { occurredAt: DataTypes.TIMESTAMP },
+      {
+        tableName: "events",
+        partitionBy: "occurredAt",
+        partitionExpirationDays: 7,
+      }
+    );
+    const plan = await orm.sync({ alter: true });
+    expect(plan.map((c) => c.action)).toEqual(["changePartitionOptions"]);
+    expect(executor.tables.get("events")).toMatchObject({
+      requirePartitionFilter: false,
+      timePartitioning: {
+        type: "DAY",
+        field: "occurredAt",
+        expirationMs: String(7 * 24 * 60 * 60 * 1000),
+      },
+    });
+    expect(await orm.sync({ dryRun: true })).toEqual([]);
+  });
+
+  it("leaves existing tables alone without alter", async () => {
+    const { orm, executor } = await withLiveTable();
+    expect(await orm.sync()).toEqual([]);
+    expect(executor.statements).toEqual([]);
+  });
+
+  it("recreates tables with force", async () => {
+    const { orm, executor } = await withLiveTable();
+    const plan = await orm.sync({ force: true });
+    expect(plan.map((c) => c.action)).toEqual(["recreateTable"]);
+    expect(
+      executor.tables.get("users")!.schema!.fields!.map((f) => f.name)
+    ).toEqual(["id", "name", "score"]);
+  });
+});
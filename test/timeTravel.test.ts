@@ -0,0 +1,77 @@
+import { definePost, defineUser, setup, silenceConsole } from "./helpers";
+
+describe("time travel", () => {
+  it("reads the main and included tables as of a timestamp", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    const Post = definePost(orm, User);
+    await User.findAll({
+      asOf: "2024-06-01 12:00:00+00",
+      include: [{ model: Post, as: "posts" }],
+      where: { id: 1 },
+    });
+
+    const [{ sql, params }] = executor.queries;
+    expect(sql).toContain(
+      "FROM `test.users` AS `users` FOR SYSTEM_TIME AS OF TIMESTAMP(@param0) LEFT OUTER JOIN `test.posts` AS `posts` FOR SYSTEM_TIME AS OF TIMESTAMP(@param0)"
+    );
+    expect(sql).toContain("WHERE `users`.`id` = @param1");
+    expect(params).toEqual({ param0: "2024-06-01 12:00:00+00", param1: 1 });
+  });
+
+  it("passes Date values as timestamp parameters", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    const asOf = new Date("2024-06-01T12:00:00Z");
+    await User.findByPk(1, { asOf });
+    await User.count({ asOf });
+
+    for (const { sql, params } of executor.queries) {
+      expect(sql).toContain(
+        "`test.users` AS `users` FOR SYSTEM_TIME AS OF @param0"
+      );
+      expect((params as any).param0).toBe(asOf);
+    }
+  });
+});
+
+describe("snapshots and clones", () => {
+  silenceConsole();
+
+  it("creates snapshots with a point in time and expiration", async () => {
+    const { orm, executor } = setup();
+    const qi = orm.getQueryInterface();
+    await qi.createSnapshot("users", "users_backup");
+    await qi.createSnapshot("users", "users_yesterday", {
+      asOf: "2024-06-01 00:00:00+00",
+      expiration: new Date("2024-07-01T00:00:00Z"),
+    });
+    expect(executor.statements).toEqual([
+      "CREATE SNAPSHOT TABLE `test.test.users_backup` CLONE `test.test.users`",
+      "CREATE SNAPSHOT TABLE `test.test.users_yesterday` CLONE `test.test.users` FOR SYSTEM_TIME AS OF TIMESTAMP('2024-06-01 00:00:00+00') OPTIONS (expiration_timestamp = TIMESTAMP '2024-07-01T00:00:00.000Z')",
+    ]);
+  });
+
+  it("clones and restores tables", async () => {
+    const { orm, executor } = setup();
+    const qi = orm.getQueryInterface();
+    await qi.cloneTable("users", "users_scratch", {
+      asOf: "2024-06-01 00:00:00+00",
+    });
+    await qi.restoreTable("users_backup", "users");
+    expect(executor.statements).toEqual([
+      "CREATE TABLE `test.test.users_scratch` CLONE `test.test.users` FOR SYSTEM_TIME AS OF TIMESTAMP('2024-06-01 00:00:00+00')",
+      "CREATE OR REPLACE TABLE `test.test.users` CLONE `test.test.users_backup`",
+    ]);
+  });
+
+  it("rethrows failures", async () => {
+    const { orm, executor } = setup();
+    executor.respond("CLONE", () => {
+      throw new Error("Not found: Table test.users_backup");
+    });
+    await expect(
+      orm.getQueryInterface().restoreTable("users_backup", "users")
+    ).rejects.toThrow("Not found: Table test.users_backup");
+  });
+});
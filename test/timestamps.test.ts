@@ -0,0 +1,85 @@
+import { DataTypes } from "../src";
+import { setup } from "./helpers";
+
+function defineAccount(options: Record<string, any> = {}) {
+  const { orm, executor } = setup();
+  const Account = orm.define(
+    "Account",
+    {
+      id: DataTypes.INTEGER,
+      name: DataTypes.STRING,
+      balance: DataTypes.INTEGER,
+    },
+    { tableName: "accounts", timestamps: true, paranoid: true, ...options }
+  );
+  return { orm, executor, Account };
+}
+
+describe("timestamps and paranoid models", () => {
+  it("stamps updatedAt without mutating the caller's data", async () => {
+    const { executor, Account } = defineAccount();
+    const data = { name: "ada" };
+    await Account.update(data, { where: { id: 1 } });
+    expect(data).toEqual({ name: "ada" });
+    const { sql, params } = executor.queries[0];
+    expect(sql).toContain(
+      "SET `name` = @set_name, `updatedAt` = @set_updatedAt"
+    );
+    expect((params as any).set_updatedAt).toBeInstanceOf(Date);
+  });
+
+  it("skips soft-deleted rows on update unless paranoid is false", async () => {
+    const { executor, Account } = defineAccount();
+    await Account.update({ name: "ada" }, { where: { id: 1 } });
+    expect(executor.queries[0].sql).toMatch(
+      /WHERE `id` = @param0 AND `deletedAt` IS NULL$/
+    );
+
+    await Account.update({ name: "ada" }, { where: {}, paranoid: false });
+    expect(executor.queries[1].sql).toMatch(/WHERE TRUE$/);
+    expect(Account.toSQL("update", { values: { name: "ada" } }).sql).toMatch(
+      /WHERE `deletedAt` IS NULL$/
+    );
+  });
+
+  it("skips soft-deleted rows on increment and decrement", async () => {
+    const { executor, Account } = defineAccount();
+    await Account.increment("balance", { where: { id: 1 } });
+    await Account.decrement("balance", { where: { id: 1 }, paranoid: false });
+    expect(executor.statements).toEqual([
+      "UPDATE `test.accounts` SET `balance` = `balance` + 1, `updatedAt` = CURRENT_TIMESTAMP() WHERE `id` = @param0 AND `deletedAt` IS NULL",
+      "UPDATE `test.accounts` SET `balance` = `balance` + -1, `updatedAt` = CURRENT_TIMESTAMP() WHERE `id` = @param0",
+    ]);
+  });
+
+  it("soft deletes, restores and force deletes", async () => {
+    const { executor, Account } = defineAccount();
+    await Account.destroy({ where: { id: 1 } });
+    await Account.restore({ where: { id: 1 } });
+    await Account.destroy({ where: { id: 1 }, force: true });
+    const [destroy, restore, remove] = executor.statements;
+    expect(destroy).toContain("SET `deletedAt` = CURRENT_TIMESTAMP()");
+    expect(destroy).toContain("AND `deletedAt` IS NULL");
+    expect(restore).toContain("SET `deletedAt` = NULL");
+    expect(restore).toContain("AND `deletedAt` IS NOT NULL");
+    expect(remove).toMatch(/^DELETE FROM `test\.accounts`/);
+  });
+
+  it("excludes soft-deleted rows from reads unless paranoid is false", async () => {
+    const { executor, Account } = defineAccount();
+    await Account.findAll();
+    await Account.findAll({ paranoid: false });
+    expect(executor.queries[0].sql).toContain("`accounts`.`deletedAt` IS NULL");
+    expect(executor.queries[1].sql).not.toContain("deletedAt` IS NULL");
+  });
+
+  it("refreshes updatedAt on the instance when saving", async () => {
+    const { executor, Account } = defineAccount();
+    const account = Account.build({ id: 1, name: "ada" });
+    account.isNewRecord = false;
+    account.set("name", "grace");
+    await account.save();
+    expect(account.get("updatedAt")).toBeInstanceOf(Date);
+    expect(executor.queries[0].sql).toContain("`updatedAt` = @set_updatedAt");
+  });
+});
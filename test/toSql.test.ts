@@ -0,0 +1,74 @@
+import { defineUser, setup } from "./helpers";
+
+describe("Model.toSQL", () => {
+  const { orm } = setup();
+  const User = defineUser(orm);
+
+  it("compiles selects with where, order and limit", () => {
+    expect(
+      User.toSQL("select", {
+        where: { id: 1 },
+        order: [["name", "DESC"]],
+        limit: 10,
+        offset: 20,
+      })
+    ).toEqual({
+      sql: "SELECT `users`.`id` AS `users_id`, `users`.`name` AS `users_name`, `users`.`score` AS `users_score` FROM `test.users` AS `users` WHERE `users`.`id` = @param0 ORDER BY `users`.`name` DESC LIMIT 10 OFFSET 20",
+      params: { param0: 1 },
+      types: {},
+    });
+  });
+
+  it("compiles counts, updates and deletes", () => {
+    expect(User.toSQL("count", { where: { score: 2 } }).sql).toBe(
+      "SELECT COUNT(DISTINCT `users`.`id`) AS count FROM `test.users` AS `users` WHERE `users`.`score` = @param0"
+    );
+    expect(
+      User.toSQL("update", { values: { name: null }, where: { id: 1 } })
+    ).toEqual({
+      sql: "UPDATE `test.users` SET `name` = @set_name WHERE `id` = @param0",
+      params: { set_name: null, param0: 1 },
+      types: { set_name: "STRING" },
+    });
+    expect(User.toSQL("delete", { where: { id: 1 } }).sql).toBe(
+      "DELETE FROM `test.users` WHERE `id` = @param0"
+    );
+  });
+
+  it("does not run anything", () => {
+    const { orm, executor } = setup();
+    defineUser(orm).toSQL("select");
+    expect(executor.queries).toEqual([]);
+  });
+});
+
+describe("Model.explain", () => {
+  it("runs the select without the cache and returns its statistics", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(/^SELECT/, {
+      rows: [],
+      metadata: {
+        statistics: {
+          query: {
+            totalBytesProcessed: "100",
+            totalBytesBilled: "10485760",
+            totalSlotMs: "12",
+            cacheHit: false,
+            queryPlan: [{ name: "S00: Input" }],
+          },
+        },
+      },
+    });
+    const result = await User.explain({ where: { id: 1 } });
+    expect(result).toEqual({
+      sql: User.toSQL("select", { where: { id: 1 } }).sql,
+      totalBytesProcessed: 100,
+      totalBytesBilled: 10485760,
+      totalSlotMs: 12,
+      cacheHit: false,
+      queryPlan: [{ name: "S00: Input" }],
+    });
+    expect(executor.queries[0].request.useQueryCache).toBe(false);
+  });
+});
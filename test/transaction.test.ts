@@ -0,0 +1,63 @@
+import { QueryInterface, Transaction } from "../src";
+import { defineUser, setup, silenceConsole } from "./helpers";
+
+const SESSION = [{ key: "session_id", value: "memory-session-1" }];
+
+describe("orm.transaction", () => {
+  silenceConsole();
+
+  it("runs operations in a session and commits", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    const result = await orm.transaction(async (t, qi) => {
+      expect(t).toBeInstanceOf(Transaction);
+      expect(qi).toBeInstanceOf(QueryInterface);
+      await User.update({ name: "ada" }, { where: { id: 1 }, transaction: t });
+      return "done";
+    });
+    expect(result).toBe("done");
+    expect(executor.statements).toEqual([
+      "BEGIN TRANSACTION",
+      expect.stringMatching(/^UPDATE `test\.users`/),
+      "COMMIT TRANSACTION",
+      "CALL BQ.ABORT_SESSION()",
+    ]);
+    expect(executor.queries[0].request.createSession).toBe(true);
+    expect(executor.queries[1].request.connectionProperties).toEqual(SESSION);
+  });
+
+  it("rolls back when the callback throws", async () => {
+    const { orm, executor } = setup();
+    await expect(
+      orm.transaction(async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    expect(executor.statements).toEqual([
+      "BEGIN TRANSACTION",
+      "ROLLBACK TRANSACTION",
+      "CALL BQ.ABORT_SESSION()",
+    ]);
+  });
+
+  it("inserts with DML instead of streaming inside a transaction", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    await orm.transaction(async (t) => {
+      await User.create({ id: 1, name: "ada" }, { transaction: t });
+    });
+    expect(executor.inserts).toEqual([]);
+    expect(executor.statements[1]).toMatch(/^INSERT INTO `test\.users`/);
+  });
+
+  it("refuses to use a finished transaction", async () => {
+    const { orm } = setup();
+    let handle!: Transaction;
+    await orm.transaction(async (t) => {
+      handle = t;
+    });
+    expect(() => handle.connectionProperties).toThrow(
+      "already been finished with commit"
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { DataTypes } from "../src";
+import { defineUser, setup } from "./helpers";
+
+describe("Model.upsert", () => {
+  it("merges rows passed as a typed STRUCT array", async () => {
+    const { orm, executor } = setup();
+    const User = defineUser(orm);
+    executor.respond(/^MERGE/, {
+      rows: [],
+      metadata: {
+        statistics: {
+          query: { dmlStats: { insertedRowCount: "1", updatedRowCount: "1" } },
+        },
+      },
+    });
+    const result = await User.bulkUpsert([
+      { id: 1, name: "ada" },
+      { id: 2, score: 3 },
+      { id: 1, name: "grace" },
+    ]);
+    expect(result).toEqual({ inserted: 1, updated: 1 });
+
+    const { sql, params, request } = executor.queries[0];
+    expect(sql).toBe(
+      "MERGE `test.users` AS target USING UNNEST(@upsert_rows) AS source ON target.`id` = source.`id` WHEN MATCHED THEN UPDATE SET `name` = IF(source.`__has_name`, source.`name`, target.`name`), `score` = IF(source.`__has_score`, source.`score`, target.`score`) WHEN NOT MATCHED THEN INSERT (`id`, `name`, `score`) VALUES (source.`id`, source.`name`, source.`score`)"
+    );
+    expect(params).toEqual({
+      upsert_rows: [
+        {
+          id: 1,
+          name: "grace",
+          score: null,
+          __has_name: true,
+          __has_score: false,
+        },
+        { id: 2, name: null, score: 3, __has_name: false, __has_score: true },
+      ],
+    });
+    expect(request.types).toEqual({
+      upsert_rows: [
+        {
+          id: "INTEGER",
+          name: "STRING",
+          score: "INTEGER",
+          __has_name: "BOOL",
+          __has_score: "BOOL",
+        },
+      ],
+    });
+  });
+
+  it("keeps columns a row leaves out and only inserts defaults", async () => {
+    const { orm, executor } = setup();
+    const User = orm.define(
+      "User",
+      {
+        id: DataTypes.INTEGER,
+        name: DataTypes.STRING,
+        score: DataTypes.INTEGER,
+        status: { type: DataTypes.STRING, defaultValue: "active" },
+      },
+      { tableName: "users", timestamps: true }
+    );
+    await User.bulkUpsert([
+      { id: 1, name: "ada" },
+      { id: 2, score: 5 },
+    ]);
+
+    const { sql, params } = executor.queries[0];
+    expect(sql).toContain(
+      "WHEN MATCHED THEN UPDATE SET `name` = IF(source.`__has_name`, source.`name`, target.`name`), `status` = IF(source.`__has_status`, source.`status`, target.`status`), `updatedAt` = source.`updatedAt`, `score` = IF(source.`__has_score`, source.`score`, target.`score`) WHEN NOT MATCHED THEN INSERT (`id`, `name`, `status`, `createdAt`, `updatedAt`, `score`)"
+    );
+    expect((params as any).upsert_rows).toEqual([
+      expect.objectContaining({
+        name: "ada",
+        score: null,
+        status: "active",
+        __has_name: true,
+        __has_score: false,
+        __has_status: false,
+      }),
+      expect.objectContaining({
+        name: null,
+        score: 5,
+        status: "active",
+        __has_name: false,
+        __has_score: true,
+        __has_status: false,
+      }),
+    ]);
+  });
+
+  it("requires values for the conflict fields", async () => {
+    const { orm } = setup();
+    const User = defineUser(orm);
+    await expect(User.upsert({ name: "ada" })).rejects.toThrow(
+      "without values for id"
+    );
+  });
+
+  it("names a column whose type cannot be a query parameter", async () => {
+    const { orm, executor } = setup();
+    const Job = orm.define(
+      "Job",
+      { id: DataTypes.INTEGER, every: DataTypes.INTERVAL },
+      { tableName: "jobs" }
+    );
+    await expect(Job.upsert({ id: 1, every: "1 HOUR" })).rejects.toThrow(
+      "Cannot upsert into jobs: the type of every cannot be passed as a query parameter"
+    );
+    expect(executor.queries).toEqual([]);
+  });
+});
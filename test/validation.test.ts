@@ -0,0 +1,84 @@
+import { DataTypes, ValidationError } from "../src";
+import { setup } from "./helpers";
+
+function defineAccount() {
+  const { orm, executor } = setup();
+  const Account = orm.define(
+    "Account",
+    {
+      id: { type: DataTypes.INTEGER, allowNull: false },
+      email: { type: DataTypes.STRING, validate: { isEmail: true } },
+      role: { type: DataTypes.STRING, validate: { isIn: ["admin", "member"] } },
+      age: { type: DataTypes.INTEGER, validate: { min: 0, max: 150 } },
+      tags: { type: { type: "ARRAY", items: DataTypes.STRING } },
+      slug: {
+        type: DataTypes.STRING,
+        validate: {
+          lowercase(value: string) {
+            if (value !== value.toLowerCase())
+              throw new Error("must be lowercase");
+          },
+        },
+      },
+    },
+    {
+      tableName: "accounts",
+      validate: {
+        adminsHaveEmail(row: any) {
+          return row.role !== "admin" || !!row.email;
+        },
+      },
+    }
+  );
+  return { executor, Account };
+}
+
+async function errorsOf(promise: Promise<any>) {
+  try {
+    await promise;
+  } catch (err) {
+    expect(err).toBeInstanceOf(ValidationError);
+    return (err as ValidationError).errors.map(
+      ({ rowIndex, field, validator }) => ({ rowIndex, field, validator })
+    );
+  }
+  throw new Error("expected a ValidationError");
+}
+
+describe("validation", () => {
+  it("collects every failure of every row before sending anything", async () => {
+    const { executor, Account } = defineAccount();
+    const errors = await errorsOf(
+      Account.bulkCreate([
+        { id: 1, email: "ok@example.com" },
+        { email: "nope", age: 200, tags: ["a", 42] },
+        { id: 3, role: "admin", slug: "Upper", extra: 1 },
+      ])
+    );
+    expect(errors).toEqual([
+      { rowIndex: 1, field: "id", validator: "allowNull" },
+      { rowIndex: 1, field: "email", validator: "isEmail" },
+      { rowIndex: 1, field: "age", validator: "max" },
+      { rowIndex: 1, field: "tags[1]", validator: "type" },
+      { rowIndex: 2, field: "extra", validator: "unknownField" },
+      { rowIndex: 2, field: "slug", validator: "lowercase" },
+      { rowIndex: 2, field: null, validator: "adminsHaveEmail" },
+    ]);
+    expect(executor.inserts).toEqual([]);
+  });
+
+  it("only checks the columns being updated", async () => {
+    const { executor, Account } = defineAccount();
+    await Account.update({ role: "member" }, { where: { id: 1 } });
+    expect(executor.queries).toHaveLength(1);
+    await expect(
+      Account.update({ role: "owner" }, { where: { id: 1 } })
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it("can be skipped", async () => {
+    const { executor, Account } = defineAccount();
+    await Account.create({ email: "nope" }, { validate: false });
+    expect(executor.inserts).toHaveLength(1);
+  });
+});
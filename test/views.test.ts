@@ -0,0 +1,99 @@
+import { DataTypes, ReadOnlyModelError } from "../src";
+import { defineUser, setup } from "./helpers";
+
+function defineViews() {
+  const { orm, executor } = setup();
+  executor.datasetCreated = true;
+  const User = defineUser(orm);
+  // Registered before the view it selects from.
+  orm.define(
+    "TopScores",
+    { id: DataTypes.INTEGER },
+    {
+      tableName: "top_scores",
+      view: "SELECT id FROM `test.ranked_users` WHERE score > 10",
+    }
+  );
+  const Ranked = orm.define(
+    "RankedUser",
+    { id: DataTypes.INTEGER, score: DataTypes.INTEGER },
+    {
+      tableName: "ranked_users",
+      view: {
+        query: { model: User, attributes: ["id", "score"] },
+        materialized: true,
+        refreshIntervalMinutes: 60,
+      },
+    }
+  );
+  return { orm, executor, User, Ranked };
+}
+
+const statementsFor = (statements: string[]) =>
+  statements.filter((sql) => /VIEW/.test(sql));
+
+describe("views", () => {
+  it("creates views after the views they select from", async () => {
+    const { orm, executor } = defineViews();
+    await orm.sync();
+    expect(executor.tables.has("users")).toBe(true);
+    const [ranked, top] = statementsFor(executor.statements);
+    expect(ranked).toBe(
+      "CREATE OR REPLACE MATERIALIZED VIEW `test.test.ranked_users` OPTIONS (refresh_interval_minutes = 60) AS SELECT `users_id` AS `id`, `users_score` AS `score` FROM (SELECT `users`.`id` AS `users_id`, `users`.`score` AS `users_score` FROM `test.users` AS `users`)"
+    );
+    expect(top).toMatch(/^CREATE OR REPLACE VIEW `test\.test\.top_scores`/);
+  });
+
+  it("leaves unchanged views alone", async () => {
+    const { orm, executor, User, Ranked } = defineViews();
+    executor.tables.set("ranked_users", {
+      materializedView: {
+        query: User.toSQL("view", Ranked.view!.query as any).sql,
+        enableRefresh: true,
+        refreshIntervalMs: String(60 * 60 * 1000),
+      },
+    });
+    executor.tables.set("top_scores", {
+      view: { query: "SELECT id FROM `test.ranked_users` WHERE score > 10" },
+    });
+    await orm.sync();
+    expect(statementsFor(executor.statements)).toEqual([]);
+    expect(await orm.sync({ dryRun: true })).toEqual([]);
+  });
+
+  it("alters materialized view options without replacing it", async () => {
+    const { orm, executor, User, Ranked } = defineViews();
+    executor.tables.set("ranked_users", {
+      materializedView: {
+        query: User.toSQL("view", Ranked.view!.query as any).sql,
+        enableRefresh: true,
+        refreshIntervalMs: String(30 * 60 * 1000),
+      },
+    });
+    const plan = await orm.sync();
+    expect(plan.find((c) => c.tableName === "ranked_users")!.action).toBe(
+      "alterView"
+    );
+    expect(statementsFor(executor.statements)[0]).toBe(
+      "ALTER MATERIALIZED VIEW `test.test.ranked_users` SET OPTIONS (enable_refresh = true, refresh_interval_minutes = 60, max_staleness = NULL)"
+    );
+  });
+
+  it("replaces a view whose query changed", async () => {
+    const { orm, executor } = defineViews();
+    executor.tables.set("top_scores", {
+      view: { query: "SELECT id FROM `test.ranked_users`" },
+    });
+    const plan = await orm.sync();
+    expect(plan.find((c) => c.tableName === "top_scores")!.action).toBe(
+      "replaceView"
+    );
+  });
+
+  it("rejects writes to view models", async () => {
+    const { Ranked } = defineViews();
+    await expect(Ranked.create({ id: 1 })).rejects.toBeInstanceOf(
+      ReadOnlyModelError
+    );
+  });
+});
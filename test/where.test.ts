@@ -0,0 +1,95 @@
+import { Op, buildWhereClause, col } from "../src";
+
+const where = (w: any) => buildWhereClause(w);
+
+describe("buildWhereClause", () => {
+  it("binds equality, null and arrays", () => {
+    expect(where({ id: 1, name: null, score: [1, 2] })).toEqual({
+      clause:
+        "`id` = @param0 AND `name` IS NULL AND `score` IN UNNEST(@param1)",
+      params: { param0: 1, param1: [1, 2] },
+      nextIndex: 2,
+    });
+  });
+
+  it("compiles comparison and string operators", () => {
+    const { clause, params } = where({
+      a: { [Op.gt]: 1, [Op.lte]: 5 },
+      b: { [Op.ne]: null },
+      c: { [Op.iLike]: "%x%" },
+      d: { [Op.startsWith]: "pre" },
+      e: { [Op.notRegexp]: "^a" },
+    });
+    expect(clause).toBe(
+      "`a` > @param0 AND `a` <= @param1 AND `b` IS NOT NULL AND LOWER(`c`) LIKE LOWER(@param2) AND STARTS_WITH(`d`, @param3) AND NOT REGEXP_CONTAINS(`e`, @param4)"
+    );
+    expect(params).toEqual({
+      param0: 1,
+      param1: 5,
+      param2: "%x%",
+      param3: "pre",
+      param4: "^a",
+    });
+  });
+
+  it("unnests IN lists and handles empty ones", () => {
+    expect(where({ id: { [Op.notIn]: [1] } }).clause).toBe(
+      "`id` NOT IN UNNEST(@param0)"
+    );
+    expect(where({ id: { [Op.in]: [] } }).clause).toBe("FALSE");
+    expect(where({ id: { [Op.notIn]: [] } }).clause).toBe("TRUE");
+    expect(where({ tags: { [Op.contains]: "x" } }).clause).toBe(
+      "@param0 IN UNNEST(`tags`)"
+    );
+  });
+
+  it("compiles between, is and not", () => {
+    expect(where({ n: { [Op.between]: [1, 2] } }).clause).toBe(
+      "`n` BETWEEN @param0 AND @param1"
+    );
+    expect(where({ flag: { [Op.isNot]: true } }).clause).toBe(
+      "`flag` IS NOT TRUE"
+    );
+    expect(where({ n: { [Op.not]: 3 } }).clause).toBe("`n` != @param0");
+    expect(where({ [Op.not]: { n: 3 } }).clause).toBe("NOT (`n` = @param0)");
+    expect(() => where({ n: { [Op.between]: [1] } })).toThrow(
+      "expects an array of two values"
+    );
+    expect(() => where({ n: { [Op.is]: 1 } })).toThrow(
+      "only accepts null or a boolean"
+    );
+  });
+
+  it("nests and/or groups", () => {
+    const { clause, params } = where({
+      [Op.or]: [{ a: 1 }, { b: 2, c: 3 }],
+      d: { [Op.or]: [{ [Op.lt]: 0 }, { [Op.gt]: 9 }] },
+    });
+    expect(clause).toBe(
+      "((`a` = @param0) OR (`b` = @param1 AND `c` = @param2)) AND ((`d` < @param3) OR (`d` > @param4))"
+    );
+    expect(Object.keys(params)).toHaveLength(5);
+    expect(where({ [Op.or]: [] }).clause).toBe("FALSE");
+  });
+
+  it("compares columns and qualifies them with an alias", () => {
+    expect(
+      buildWhereClause({ updatedAt: { [Op.gt]: col("createdAt") } }, {}, 0, "t")
+        .clause
+    ).toBe("`t`.`updatedAt` > `t`.`createdAt`");
+  });
+
+  it("continues numbering from the given index", () => {
+    expect(buildWhereClause({ id: 1 }, {}, 3)).toEqual({
+      clause: "`id` = @param3",
+      params: { param3: 1 },
+      nextIndex: 4,
+    });
+  });
+
+  it("rejects unknown operators", () => {
+    expect(() => where({ id: { bogus: 1 } })).toThrow(
+      'Unknown operator "bogus" on id'
+    );
+  });
+});